@@ -0,0 +1,186 @@
+import { Attachment } from './types.js';
+
+export interface ExtractedAttachments {
+  attachments: Attachment[];
+  // One line per attachment that was left out, and why
+  skipped: string[];
+}
+
+const IMAGE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+const FILE_MIME_TYPES = new Set(['application/pdf']);
+
+// Charged for images whose dimensions cannot be read: the largest high-detail tiling (768x2048)
+const UNKNOWN_IMAGE_TOKENS = 85 + 170 * 8;
+// Rough cost of one PDF page: the model receives the extracted text and an image of the page
+const PDF_PAGE_TOKENS = 1500;
+
+/**
+ * Collect images and blob resources (PNG/JPEG/GIF/WebP/PDF) from the request metadata.
+ * Text resources are left to processResources; anything over ATTACHMENT_MAX_BYTES or past
+ * ATTACHMENT_MAX_COUNT is skipped and reported rather than silently dropped.
+ */
+export function extractAttachments(meta?: any): ExtractedAttachments {
+  const result: ExtractedAttachments = { attachments: [], skipped: [] };
+  if (!meta) return result;
+
+  const maxBytes = parseInt(process.env.ATTACHMENT_MAX_BYTES || '10485760');
+  const maxCount = parseInt(process.env.ATTACHMENT_MAX_COUNT || '5');
+
+  const candidates: { data: string; mimeType?: string; name: string }[] = [];
+  if (Array.isArray(meta.resources)) {
+    for (const resource of meta.resources) {
+      if (resource?.blob) {
+        candidates.push({ data: resource.blob, mimeType: resource.mimeType, name: resource.name || resource.uri || 'attachment' });
+      }
+    }
+  }
+  if (Array.isArray(meta.content)) {
+    for (const item of meta.content) {
+      if (item?.type === 'image' && item.data) {
+        candidates.push({ data: item.data, mimeType: item.mimeType, name: item.name || 'image' });
+      } else if (item?.type === 'resource' && item.resource?.blob) {
+        const res = item.resource;
+        candidates.push({ data: res.blob, mimeType: res.mimeType, name: res.name || res.uri || 'attachment' });
+      }
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (result.attachments.length >= maxCount) {
+      result.skipped.push(`${candidate.name}: over the limit of ${maxCount} attachments`);
+      continue;
+    }
+
+    const data = stripDataUrl(candidate.data);
+    const bytes = Buffer.from(data, 'base64');
+    const mimeType = normalizeMimeType(candidate.mimeType) || sniffMimeType(bytes);
+    if (!mimeType || (!IMAGE_MIME_TYPES.has(mimeType) && !FILE_MIME_TYPES.has(mimeType))) {
+      result.skipped.push(`${candidate.name}: unsupported type ${mimeType || 'unknown'}`);
+      continue;
+    }
+    if (bytes.length > maxBytes) {
+      result.skipped.push(`${candidate.name}: ${bytes.length} bytes exceeds the ${maxBytes} byte limit`);
+      continue;
+    }
+
+    const isImage = IMAGE_MIME_TYPES.has(mimeType);
+    result.attachments.push({
+      kind: isImage ? 'image' : 'file',
+      mimeType,
+      data,
+      name: candidate.name,
+      estimatedTokens: isImage ? estimateImageTokens(readImageSize(bytes)) : countPdfPages(bytes) * PDF_PAGE_TOKENS
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Input tokens for a high-detail image: scaled to fit 2048x2048, then so the short side is
+ * at most 768px, and billed 170 tokens per 512px tile plus a base of 85.
+ */
+export function estimateImageTokens(size?: { width: number; height: number }): number {
+  if (!size || size.width <= 0 || size.height <= 0) return UNKNOWN_IMAGE_TOKENS;
+
+  let { width, height } = size;
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  width *= fit;
+  height *= fit;
+  const shrink = Math.min(1, 768 / Math.min(width, height));
+  width *= shrink;
+  height *= shrink;
+
+  const tiles = Math.ceil(width / 512) * Math.ceil(height / 512);
+  return 85 + 170 * tiles;
+}
+
+/**
+ * Read pixel dimensions from a PNG, JPEG, GIF or WebP header without decoding the image.
+ */
+export function readImageSize(bytes: Buffer): { width: number; height: number } | undefined {
+  try {
+    // PNG: IHDR is always the first chunk
+    if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47) {
+      return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+    }
+    // GIF: logical screen size follows the signature
+    if (bytes.length >= 10 && bytes.toString('ascii', 0, 4) === 'GIF8') {
+      return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+    }
+    // WebP: lossy (VP8), lossless (VP8L) and extended (VP8X) bitstreams store the size differently
+    if (bytes.length >= 30 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+      const chunk = bytes.toString('ascii', 12, 16);
+      if (chunk === 'VP8 ') {
+        return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+      }
+      if (chunk === 'VP8L') {
+        const bits = bytes.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === 'VP8X') {
+        return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+      }
+    }
+    // JPEG: walk the segments until a start-of-frame marker
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return undefined;
+        const marker = bytes[offset + 1];
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isStartOfFrame) {
+          return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + bytes.readUInt16BE(offset + 2);
+      }
+    }
+  } catch {}
+  return undefined;
+}
+
+/**
+ * Build the Responses API content part for an attachment.
+ */
+export function toResponsesContent(attachment: Attachment): any {
+  const dataUrl = `data:${attachment.mimeType};base64,${attachment.data}`;
+  return attachment.kind === 'image'
+    ? { type: 'input_image', image_url: dataUrl, detail: 'auto' }
+    : { type: 'input_file', filename: attachment.name, file_data: dataUrl };
+}
+
+/**
+ * Build the chat completions content part for an attachment. Chat models only take images,
+ * so files come back undefined and the caller has to say they were left out.
+ */
+export function toChatContent(attachment: Attachment): any | undefined {
+  if (attachment.kind !== 'image') return undefined;
+  return { type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } };
+}
+
+function stripDataUrl(data: string): string {
+  const match = /^data:[^;,]*(?:;[^,]*)?,/.exec(data);
+  return match ? data.slice(match[0].length) : data;
+}
+
+function normalizeMimeType(mimeType?: string): string | undefined {
+  if (!mimeType) return undefined;
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  return normalized === 'image/jpg' ? 'image/jpeg' : normalized;
+}
+
+function sniffMimeType(bytes: Buffer): string | undefined {
+  if (bytes.length < 12) return undefined;
+  if (bytes.readUInt32BE(0) === 0x89504e47) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+  if (bytes.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+  if (bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (bytes.toString('ascii', 0, 5) === '%PDF-') return 'application/pdf';
+  return undefined;
+}
+
+function countPdfPages(bytes: Buffer): number {
+  // Page objects are usually uncompressed even when content streams are not
+  const pages = bytes.toString('latin1').match(/\/Type\s*\/Page\b/g);
+  return Math.max(1, pages ? pages.length : 0);
+}
@@ -0,0 +1,118 @@
+import { BatchItemResult, BatchState, BatchStatus, CreateResponseParams, TokenUsage } from './types.js';
+import { GPT5Client } from './openai-client.js';
+import { CostManager } from './cost-manager.js';
+import { addUsage } from './pricing.js';
+import { PolledStore } from './polled-store.js';
+
+export interface BatchItem {
+  // Caller-chosen id, sent as the request's custom_id so results map back to it
+  id: string;
+  params: CreateResponseParams;
+}
+
+export interface BatchRecord {
+  id: string;
+  taskId: string;
+  status: BatchStatus;
+  itemIds: string[];
+  estimatedCost: number;
+  requestCounts: BatchState['requestCounts'];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  results?: BatchItemResult[];
+  usage?: TokenUsage;
+  error?: string;
+}
+
+const FINISHED_STATUSES: BatchStatus[] = ['completed', 'failed', 'expired', 'cancelled'];
+// Finished batches are dropped from batches.json after this long
+const BATCH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Tracks Batch API jobs from submission to their results. Batches can take up to a day,
+ * so they live in DATA_DIR/batches.json and are polled again after a restart. The whole
+ * batch is charged to its task once, when the results are read.
+ */
+export class BatchManager extends PolledStore<BatchRecord, BatchState> {
+  constructor(
+    client: GPT5Client,
+    costManager: CostManager,
+    dataDir = './data',
+    pollIntervalMs = parseInt(process.env.BATCH_POLL_INTERVAL_MS || '60000')
+  ) {
+    super(client, costManager, { label: 'batch', fileName: 'batches.json', key: 'batches', dataDir, pollIntervalMs, retentionMs: BATCH_RETENTION_MS });
+  }
+
+  async submit(taskId: string, items: BatchItem[], estimatedCost: number): Promise<BatchRecord> {
+    await this.ready;
+    const ids = new Set(items.map(item => item.id));
+    if (ids.size !== items.length) {
+      throw new Error('Batch item ids must be unique');
+    }
+
+    const batchId = await this.client.createBatch(items.map(item => ({ customId: item.id, params: item.params })));
+    const now = new Date().toISOString();
+    const record: BatchRecord = {
+      id: batchId,
+      taskId,
+      status: 'validating',
+      itemIds: items.map(item => item.id),
+      estimatedCost,
+      requestCounts: { total: items.length, completed: 0, failed: 0 },
+      createdAt: now,
+      updatedAt: now
+    };
+    this.records.set(record.id, record);
+    await this.persist();
+    this.startPolling();
+    return record;
+  }
+
+  /**
+   * The batch, refreshed from the API first if it has not finished.
+   */
+  async get(batchId: string): Promise<BatchRecord | undefined> {
+    await this.ready;
+    const record = this.records.get(batchId);
+    if (record && !this.isFinished(record)) {
+      await this.refresh(record);
+    }
+    return record;
+  }
+
+  protected isFinished(record: BatchRecord): boolean {
+    return FINISHED_STATUSES.includes(record.status);
+  }
+
+  protected fetchState(record: BatchRecord): Promise<BatchState> {
+    return this.client.getBatch(record.id);
+  }
+
+  protected async applyState(record: BatchRecord, state: BatchState): Promise<void> {
+    record.status = state.status;
+    record.requestCounts = state.requestCounts;
+    record.updatedAt = new Date().toISOString();
+    if (state.error) record.error = state.error;
+
+    if (this.isFinished(record)) {
+      record.completedAt = record.updatedAt;
+      record.results = this.orderResults(record, state.results || []);
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, reasoningTokens: 0, totalTokens: 0, estimatedCost: 0, cacheSavings: 0 };
+      for (const result of record.results) {
+        if (result.usage) addUsage(usage, result.usage);
+      }
+      record.usage = usage;
+      if (usage.totalTokens > 0) {
+        await this.recordCost(record, usage, { model: record.results.find(result => result.model)?.model });
+      }
+    }
+    await this.persist();
+  }
+
+  // Results in submission order; items the batch never ran (expired, cancelled) get an error
+  private orderResults(record: BatchRecord, results: BatchItemResult[]): BatchItemResult[] {
+    const byId = new Map(results.map(result => [result.customId, result]));
+    return record.itemIds.map(id => byId.get(id) || { customId: id, error: `No result (batch ${record.status})` });
+  }
+}
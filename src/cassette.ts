@@ -0,0 +1,167 @@
+import fs from 'fs/promises';
+import { CassetteMissError } from './errors.js';
+import { JsonFile } from './json-file.js';
+
+// record: pass requests through to the network and save each exchange; replay: never touch the network
+export type CassetteMode = 'record' | 'replay';
+
+export type Fetch = (url: any, init?: any) => Promise<Response>;
+
+export interface RecordedRequest {
+  method: string;
+  // Path and query only, so a cassette replays whatever base URL the provider uses
+  path: string;
+  // Parsed JSON body; multipart uploads and empty bodies are matched on method and path alone
+  body?: any;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  // Raw body text; a streamed response keeps its server-sent events verbatim
+  body: string;
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response?: RecordedResponse;
+  // The request never got a response (connection reset, DNS failure, ...)
+  error?: string;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: Interaction[];
+}
+
+// Not worth keeping (re-encoded on replay) or not safe to commit
+const DROPPED_HEADERS = new Set([
+  'content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive',
+  'set-cookie', 'openai-organization', 'openai-project'
+]);
+
+/**
+ * A `fetch` for the OpenAI SDK that records request/response pairs to a JSON cassette
+ * or plays them back offline. Request headers are never written, so API keys stay out
+ * of the file. In replay, each recorded exchange is used once, in order, so a 429
+ * followed by a 200 for the same request replays as a retry.
+ */
+export class CassetteTransport {
+  private file: string;
+  private mode: CassetteMode;
+  private upstream: Fetch;
+  private interactions: Interaction[] = [];
+  private used: Set<number> = new Set();
+  private ready: Promise<void>;
+  private store: JsonFile;
+
+  constructor(file: string, mode: CassetteMode = 'replay', upstream: Fetch = globalThis.fetch) {
+    this.file = file;
+    this.store = new JsonFile(file);
+    this.mode = mode;
+    this.upstream = upstream;
+    this.ready = mode === 'replay' ? this.load() : Promise.resolve();
+    // A missing cassette is reported by the first fetch, not as an unhandled rejection
+    this.ready.catch(() => {});
+  }
+
+  fetch: Fetch = async (url, init = {}) => {
+    await this.ready;
+    const request = await this.describeRequest(url, init);
+    return this.mode === 'record' ? this.record(url, init, request) : this.replay(request, init.signal);
+  };
+
+  /**
+   * Recorded exchanges a replay has not used yet; a test that expects every call to
+   * happen can assert this is empty.
+   */
+  unused(): Interaction[] {
+    return this.interactions.filter((_, index) => !this.used.has(index));
+  }
+
+  /**
+   * Wait for pending cassette writes (record mode).
+   */
+  async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  private async record(url: any, init: any, request: RecordedRequest): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.upstream(url, init);
+    } catch (error: any) {
+      if (!init.signal?.aborted) {
+        this.interactions.push({ request, error: error.message || String(error) });
+        await this.save();
+      }
+      throw error;
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!DROPPED_HEADERS.has(name.toLowerCase())) headers[name.toLowerCase()] = value;
+    });
+    // Reading the whole body first means a streamed response reaches the SDK in one go
+    const recorded: RecordedResponse = { status: response.status, headers, body: await response.text() };
+    this.interactions.push({ request, response: recorded });
+    await this.save();
+    return this.toResponse(recorded);
+  }
+
+  private async replay(request: RecordedRequest, signal?: AbortSignal): Promise<Response> {
+    if (signal?.aborted) throw signal.reason ?? new Error('The operation was aborted');
+
+    const key = JSON.stringify(request);
+    const index = this.interactions.findIndex((interaction, i) => !this.used.has(i) && JSON.stringify(interaction.request) === key);
+    if (index === -1) {
+      const error = new CassetteMissError(request.method, request.path, this.file);
+      // The SDK reports a failed fetch as a bare "Connection error.", so say what was missing here too
+      console.error(error.message);
+      throw error;
+    }
+
+    this.used.add(index);
+    const interaction = this.interactions[index];
+    if (!interaction.response) {
+      throw new TypeError(interaction.error || 'fetch failed');
+    }
+    return this.toResponse(interaction.response);
+  }
+
+  private async describeRequest(url: any, init: any): Promise<RecordedRequest> {
+    const parsed = new URL(typeof url === 'string' ? url : url.url ?? String(url));
+    const request: RecordedRequest = { method: (init.method || 'GET').toUpperCase(), path: parsed.pathname + parsed.search };
+    if (typeof init.body === 'string' && init.body.length > 0) {
+      try {
+        request.body = JSON.parse(init.body);
+      } catch {}
+    } else if (init.body && typeof init.body[Symbol.asyncIterator] === 'function' && this.mode === 'record') {
+      // Multipart uploads arrive as a Node stream, which the upstream fetch cannot send as-is
+      const chunks: Buffer[] = [];
+      for await (const chunk of init.body) chunks.push(Buffer.from(chunk));
+      init.body = Buffer.concat(chunks);
+    }
+    return request;
+  }
+
+  private toResponse(recorded: RecordedResponse): Response {
+    // Null-body statuses must not be given a body, even an empty one
+    const body = recorded.status === 204 || recorded.status === 304 ? null : recorded.body;
+    return new Response(body, { status: recorded.status, headers: recorded.headers });
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const cassette: Cassette = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+      this.interactions = cassette.interactions || [];
+    } catch (error: any) {
+      throw new Error(`Cannot read cassette ${this.file}: ${error.message}`);
+    }
+  }
+
+  private save(): Promise<void> {
+    const cassette: Cassette = { version: 1, interactions: this.interactions };
+    return this.store.write(cassette);
+  }
+}
@@ -0,0 +1,144 @@
+import { FallbackKind } from './types.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitEndpoint = 'responses' | 'chat';
+
+export interface CircuitStatus {
+  model: string;
+  endpoint: CircuitEndpoint;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  // When an open circuit lets the next probe through
+  retryAt?: string;
+}
+
+export type CircuitCheck =
+  | { allowed: true }
+  | { allowed: false; kind: FallbackKind; reason: string };
+
+interface Circuit {
+  model: string;
+  endpoint: CircuitEndpoint;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  probeInFlight: boolean;
+  openedAt?: number;
+  lastKind?: FallbackKind;
+  lastError?: string;
+  lastFailureAt?: number;
+}
+
+/**
+ * Health of every model/endpoint pair the client has called. A circuit opens after
+ * `failureThreshold` consecutive failures; once `cooldownMs` has passed a single probe
+ * request is let through (half-open) and its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreakerRegistry {
+  private circuits: Map<string, Circuit> = new Map();
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private now: () => number;
+
+  constructor(
+    failureThreshold = parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5'),
+    cooldownMs = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '60000'),
+    now: () => number = Date.now
+  ) {
+    this.failureThreshold = Math.max(1, failureThreshold);
+    this.cooldownMs = cooldownMs;
+    this.now = now;
+  }
+
+  /**
+   * Whether a request may be sent. Moving an open circuit to half-open claims the probe,
+   * so callers must report the outcome with recordSuccess, recordFailure or release.
+   */
+  check(model: string, endpoint: CircuitEndpoint): CircuitCheck {
+    const circuit = this.circuits.get(this.key(model, endpoint));
+    if (!circuit || circuit.state === 'closed') return { allowed: true };
+
+    if (circuit.state === 'open' && this.now() - (circuit.openedAt || 0) >= this.cooldownMs) {
+      circuit.state = 'half_open';
+    }
+    if (circuit.state === 'half_open' && !circuit.probeInFlight) {
+      circuit.probeInFlight = true;
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      kind: circuit.lastKind || 'transient',
+      reason: `circuit open for ${model} (${endpoint}) after ${circuit.consecutiveFailures} consecutive failures; last error: ${circuit.lastError}`
+    };
+  }
+
+  recordSuccess(model: string, endpoint: CircuitEndpoint): void {
+    const circuit = this.getOrCreate(model, endpoint);
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.totalSuccesses++;
+    circuit.probeInFlight = false;
+    circuit.openedAt = undefined;
+  }
+
+  recordFailure(model: string, endpoint: CircuitEndpoint, kind: FallbackKind, reason: string): void {
+    const circuit = this.getOrCreate(model, endpoint);
+    circuit.consecutiveFailures++;
+    circuit.totalFailures++;
+    circuit.lastKind = kind;
+    circuit.lastError = reason;
+    circuit.lastFailureAt = this.now();
+    // A failed probe re-opens immediately; a closed circuit waits for the threshold
+    if (circuit.state === 'half_open' || circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.state = 'open';
+      circuit.openedAt = this.now();
+    }
+    circuit.probeInFlight = false;
+  }
+
+  /**
+   * The request ended without telling us anything about the model's health
+   * (cancelled, or rejected for a reason of the caller's making).
+   */
+  release(model: string, endpoint: CircuitEndpoint): void {
+    const circuit = this.circuits.get(this.key(model, endpoint));
+    if (circuit) circuit.probeInFlight = false;
+  }
+
+  getStatus(): CircuitStatus[] {
+    return Array.from(this.circuits.values()).map(circuit => ({
+      model: circuit.model,
+      endpoint: circuit.endpoint,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      totalFailures: circuit.totalFailures,
+      totalSuccesses: circuit.totalSuccesses,
+      lastError: circuit.lastError,
+      lastFailureAt: circuit.lastFailureAt ? new Date(circuit.lastFailureAt).toISOString() : undefined,
+      retryAt: circuit.state === 'open' && circuit.openedAt !== undefined
+        ? new Date(circuit.openedAt + this.cooldownMs).toISOString()
+        : undefined
+    }));
+  }
+
+  private getOrCreate(model: string, endpoint: CircuitEndpoint): Circuit {
+    const key = this.key(model, endpoint);
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { model, endpoint, state: 'closed', consecutiveFailures: 0, totalFailures: 0, totalSuccesses: 0, probeInFlight: false };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private key(model: string, endpoint: CircuitEndpoint): string {
+    return `${endpoint}/${model}`;
+  }
+}
@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Conversation, ConversationMessage } from './types.js';
+
+// Bump when the stored shape changes; files and exports without a version are version 1
+export const CONVERSATION_SCHEMA_VERSION = 1;
+
+/**
+ * The exportConversation format, which is also what ConversationStore writes to disk.
+ */
+export function serializeConversation(conversation: Conversation): string {
+  return JSON.stringify({ version: CONVERSATION_SCHEMA_VERSION, ...conversation }, null, 2);
+}
+
+export function deserializeConversation(data: string): Conversation {
+  const { version = 1, ...conversation } = JSON.parse(data);
+  if (version > CONVERSATION_SCHEMA_VERSION) {
+    throw new Error(`schema version ${version} is newer than this server supports (${CONVERSATION_SCHEMA_VERSION})`);
+  }
+
+  // Convert timestamp strings back to Date objects
+  conversation.messages = conversation.messages.map(reviveMessage);
+  if (conversation.archive) {
+    conversation.archive = conversation.archive.map(reviveMessage);
+  }
+  conversation.metadata.created = new Date(conversation.metadata.created);
+  conversation.metadata.lastActive = new Date(conversation.metadata.lastActive);
+  return conversation as Conversation;
+}
+
+function reviveMessage(msg: any): ConversationMessage {
+  return {
+    ...msg,
+    timestamp: new Date(msg.timestamp),
+    ...(msg.alternates ? { alternates: msg.alternates.map((alt: any) => ({ ...alt, timestamp: new Date(alt.timestamp) })) } : {})
+  };
+}
+
+/**
+ * One JSON file per conversation in `dir`. Changes are written behind: save() and remove()
+ * only mark the conversation, and everything marked within `writeDelayMs` goes out in one pass,
+ * so a busy conversation is not rewritten on every message.
+ */
+export class ConversationStore {
+  private dir: string;
+  private writeDelayMs: number;
+  // null marks a conversation whose file should be deleted
+  private dirty: Map<string, Conversation | null> = new Map();
+  private writeTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(dir: string, writeDelayMs = parseInt(process.env.CONVERSATION_WRITE_DELAY_MS || '1000')) {
+    this.dir = dir;
+    this.writeDelayMs = writeDelayMs;
+  }
+
+  /**
+   * Read every stored conversation. Unreadable files are reported and skipped.
+   */
+  async load(): Promise<Conversation[]> {
+    let files: string[];
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      files = (await fs.readdir(this.dir)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      console.error('Failed to initialize conversation storage:', error);
+      return [];
+    }
+
+    const conversations: Conversation[] = [];
+    for (const file of files) {
+      try {
+        conversations.push(deserializeConversation(await fs.readFile(path.join(this.dir, file), 'utf-8')));
+      } catch (error) {
+        console.error(`Skipping unreadable conversation file ${file}:`, error);
+      }
+    }
+    return conversations;
+  }
+
+  save(conversation: Conversation): void {
+    this.dirty.set(conversation.id, conversation);
+    this.scheduleWrite();
+  }
+
+  remove(conversationId: string): void {
+    this.dirty.set(conversationId, null);
+    this.scheduleWrite();
+  }
+
+  /**
+   * Write out everything pending now (shutdown, tests).
+   */
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    await this.write();
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) return;
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.write();
+    }, this.writeDelayMs);
+    this.writeTimer.unref();
+  }
+
+  private write(): Promise<void> {
+    const pending = Array.from(this.dirty.entries());
+    this.dirty.clear();
+    // Writes are chained so a slow pass never races the next one on the same file
+    this.writing = this.writing.then(async () => {
+      if (pending.length === 0) return;
+      try {
+        await fs.mkdir(this.dir, { recursive: true });
+      } catch (error) {
+        console.error('Failed to create conversation storage:', error);
+        return;
+      }
+      for (const [id, conversation] of pending) {
+        const file = path.join(this.dir, `${id}.json`);
+        try {
+          if (conversation) {
+            await fs.writeFile(file + '.tmp', serializeConversation(conversation));
+            await fs.rename(file + '.tmp', file);
+          } else {
+            await fs.rm(file, { force: true });
+          }
+        } catch (error) {
+          console.error(`Failed to persist conversation ${id}:`, error);
+        }
+      }
+    });
+    return this.writing;
+  }
+}
@@ -1,22 +1,55 @@
 import { 
   Conversation, 
-  ConversationMessage
+  ConversationBranch,
+  ConversationMessage,
+  ContextWindow,
+  Verbosity
 } from './types.js';
+import { ConversationStore, serializeConversation, deserializeConversation } from './conversation-store.js';
+import { countTokens } from './tokenizer.js';
 
 export class ConversationManager {
   private conversations: Map<string, Conversation> = new Map();
   private maxConversations: number;
   private maxMessagesPerConversation: number;
+  // Without a store, conversations last as long as the process
+  private store?: ConversationStore;
 
   constructor(
     maxConversations = 50,
-    maxMessagesPerConversation = 100
+    maxMessagesPerConversation = 100,
+    store?: ConversationStore
   ) {
     this.maxConversations = maxConversations;
     this.maxMessagesPerConversation = maxMessagesPerConversation;
+    this.store = store;
   }
 
-  startConversation(topic: string, instructions?: string, budgetLimit?: number): string {
+  /**
+   * Restore conversations saved by a previous run. Keeps the most recently active ones
+   * when there are more than maxConversations. Returns how many were loaded.
+   */
+  async load(): Promise<number> {
+    if (!this.store) return 0;
+    const stored = (await this.store.load())
+      .sort((a, b) => b.metadata.lastActive.getTime() - a.metadata.lastActive.getTime());
+    for (const conversation of stored.slice(this.maxConversations)) {
+      this.store.remove(conversation.id);
+    }
+    for (const conversation of stored.slice(0, this.maxConversations)) {
+      this.conversations.set(conversation.id, conversation);
+    }
+    return this.conversations.size;
+  }
+
+  /**
+   * Write pending conversation changes to the store (shutdown).
+   */
+  async flush(): Promise<void> {
+    await this.store?.flush();
+  }
+
+  startConversation(topic: string, instructions?: string, budgetLimit?: number, serverState?: boolean): string {
     // Clean up if we're at max capacity
     if (this.conversations.size >= this.maxConversations) {
       this.cleanupOldestConversation();
@@ -43,14 +76,97 @@ export class ConversationManager {
         totalCost: 0,
         tokenCount: 0,
         topic,
-        budgetLimit
+        budgetLimit,
+        serverState
       }
     };
 
     this.conversations.set(id, conversation);
+    this.store?.save(conversation);
     return id;
   }
 
+  /**
+   * Copy a conversation up to and including `messageIndex` (default: its last message) into a
+   * new conversation. Nothing is sent to the model; the fork starts at zero cost and is billed
+   * separately from here on.
+   */
+  forkConversation(conversationId: string, messageIndex?: number, topic?: string): string {
+    const source = this.conversations.get(conversationId);
+    if (!source) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const branchPoint = messageIndex ?? source.messages.length - 1;
+    if (!Number.isInteger(branchPoint) || branchPoint < 0 || branchPoint >= source.messages.length) {
+      throw new Error(`Message index ${messageIndex} is out of range (conversation has ${source.messages.length} messages)`);
+    }
+
+    const messages = source.messages.slice(0, branchPoint + 1).map(message => ({ ...message }));
+    if (this.conversations.size >= this.maxConversations) {
+      this.cleanupOldestConversation();
+    }
+
+    const id = this.generateId();
+    const { budgetLimit, contextLimit, contextTokenLimit, autoCompactTokens, serverState, verbosity } = source.metadata;
+    const conversation: Conversation = {
+      id,
+      messages,
+      metadata: {
+        created: new Date(),
+        lastActive: new Date(),
+        totalCost: 0,
+        tokenCount: 0,
+        topic: topic ?? source.metadata.topic,
+        budgetLimit,
+        contextLimit,
+        contextTokenLimit,
+        autoCompactTokens,
+        serverState,
+        verbosity,
+        // A stored response can only be chained from when the fork has every message it covers
+        lastResponseId: branchPoint === source.messages.length - 1 ? source.metadata.lastResponseId : undefined,
+        parentId: source.id,
+        branchPoint
+      },
+      // Archived messages are older than any current one, so they belong to every fork
+      ...(source.archive ? { archive: source.archive.map(message => ({ ...message })) } : {})
+    };
+
+    this.conversations.set(id, conversation);
+    this.store?.save(conversation);
+    return id;
+  }
+
+  /**
+   * The branch tree `conversationId` belongs to, from its root. A fork whose parent was
+   * deleted or evicted becomes a root itself.
+   */
+  getBranchTree(conversationId: string): ConversationBranch | undefined {
+    let root = this.conversations.get(conversationId);
+    if (!root) return undefined;
+    while (root.metadata.parentId && this.conversations.has(root.metadata.parentId)) {
+      root = this.conversations.get(root.metadata.parentId)!;
+    }
+
+    const children = new Map<string, Conversation[]>();
+    for (const conversation of this.conversations.values()) {
+      const parentId = conversation.metadata.parentId;
+      if (parentId) children.set(parentId, [...(children.get(parentId) || []), conversation]);
+    }
+    const toBranch = (conversation: Conversation): ConversationBranch => ({
+      id: conversation.id,
+      topic: conversation.metadata.topic,
+      branchPoint: conversation.metadata.branchPoint,
+      messageCount: conversation.messages.length,
+      totalCost: conversation.metadata.totalCost,
+      lastActive: conversation.metadata.lastActive,
+      children: (children.get(conversation.id) || [])
+        .sort((a, b) => a.metadata.created.getTime() - b.metadata.created.getTime())
+        .map(toBranch)
+    });
+    return toBranch(root);
+  }
+
   addMessage(
     conversationId: string, 
     role: 'user' | 'assistant' | 'developer', 
@@ -61,18 +177,18 @@ export class ConversationManager {
       throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    // Trim old messages if necessary
+    // Trim old messages if necessary, keeping developer instructions and pinned messages
     if (conversation.messages.length >= this.maxMessagesPerConversation) {
-      // Keep the first message if it's developer instructions
-      const keepFirst = conversation.messages[0]?.role === 'developer';
-      if (keepFirst) {
-        conversation.messages = [
-          conversation.messages[0],
-          ...conversation.messages.slice(-(this.maxMessagesPerConversation - 2))
-        ];
-      } else {
-        conversation.messages = conversation.messages.slice(-(this.maxMessagesPerConversation - 1));
-      }
+      let excess = conversation.messages.length - this.maxMessagesPerConversation + 1;
+      let trimmed = 0;
+      conversation.messages = conversation.messages.filter(message => {
+        if (excess === 0 || message.role === 'developer' || message.pinned || message.summary) return true;
+        excess--;
+        trimmed++;
+        return false;
+      });
+      // Counted so the turn summary can say history was lost
+      conversation.metadata.trimmedMessages = (conversation.metadata.trimmedMessages || 0) + trimmed;
     }
 
     conversation.messages.push({
@@ -82,6 +198,86 @@ export class ConversationManager {
     });
 
     conversation.metadata.lastActive = new Date();
+    this.store?.save(conversation);
+  }
+
+  /**
+   * Replace the final assistant reply with a regenerated one. The replaced text is kept in
+   * the new message's alternates.
+   */
+  replaceLastReply(conversationId: string, content: string): ConversationMessage {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const last = conversation.messages[conversation.messages.length - 1];
+    if (last?.role !== 'assistant' || last.summary) {
+      throw new Error(`Conversation ${conversationId} does not end with an assistant reply`);
+    }
+
+    const reply = withAlternate(last, content);
+    conversation.messages[conversation.messages.length - 1] = reply;
+    conversation.metadata.lastActive = new Date();
+    this.store?.save(conversation);
+    return reply;
+  }
+
+  /**
+   * Replace the user message at `index` and everything after it with the edited message and
+   * `reply`, the answer to it. The previous text of both is kept as alternates. When later
+   * messages are dropped, the conversation as it was is first kept in a fork, whose id is
+   * returned with the number of dropped messages.
+   */
+  editMessage(conversationId: string, index: number, content: string, reply: string): { dropped: number; forkId?: string } {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const target = conversation.messages[index];
+    if (target?.role !== 'user') {
+      throw new Error(`Message ${index} of conversation ${conversationId} is not a user message`);
+    }
+
+    const later = conversation.messages.slice(index + 1);
+    const previousReply = later[0]?.role === 'assistant' ? later[0] : undefined;
+    const dropped = later.length - (previousReply ? 1 : 0);
+    const forkId = dropped > 0 ? this.keepCopy(conversation, 'before edit') : undefined;
+    conversation.messages = [
+      ...conversation.messages.slice(0, index),
+      withAlternate(target, content),
+      previousReply ? withAlternate(previousReply, reply) : { role: 'assistant', content: reply, timestamp: new Date() }
+    ];
+    conversation.metadata.lastActive = new Date();
+    this.store?.save(conversation);
+    return { dropped, forkId };
+  }
+
+  /**
+   * Remove the last user message and the reply to it, if there is one. The server-side
+   * chain includes them, so it is dropped too. The conversation as it was is first kept in
+   * a fork, whose id is returned with the removed messages.
+   */
+  undoLastExchange(conversationId: string): { removed: ConversationMessage[]; forkId: string } {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    let start = conversation.messages.length;
+    const last = conversation.messages[start - 1];
+    if (last?.role === 'assistant' && !last.summary) start--;
+    if (conversation.messages[start - 1]?.role === 'user') start--;
+    if (start === conversation.messages.length) {
+      throw new Error(`Conversation ${conversationId} has no exchange to undo`);
+    }
+
+    const forkId = this.keepCopy(conversation, 'before undo');
+    const removed = conversation.messages.slice(start);
+    conversation.messages = conversation.messages.slice(0, start);
+    conversation.metadata.lastResponseId = undefined;
+    conversation.metadata.lastActive = new Date();
+    this.store?.save(conversation);
+    return { removed, forkId };
   }
 
   getConversation(conversationId: string): Conversation | undefined {
@@ -143,6 +339,128 @@ export class ConversationManager {
     return messages;
   }
 
+  /**
+   * Pick the history for a turn by token budget. Developer instructions, pinned messages and
+   * the newest message (or `newMessage`, which follows the history) are always kept; older
+   * messages are then added newest-first until the next one would exceed `maxTokens`. With
+   * `upTo`, only the first `upTo` messages are considered, for re-running an earlier turn.
+   */
+  selectContext(
+    conversationId: string,
+    options: { maxTokens?: number; newMessage?: string; upTo?: number; model?: string } = {}
+  ): ContextWindow {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const maxTokens = options.maxTokens
+      ?? conversation.metadata.contextTokenLimit
+      ?? parseInt(process.env.MAX_CONVERSATION_CONTEXT_TOKENS || '16000');
+    const maxMessages = conversation.metadata.contextLimit
+      ?? (process.env.MAX_CONVERSATION_CONTEXT ? parseInt(process.env.MAX_CONVERSATION_CONTEXT) : Infinity);
+    const source: ConversationMessage[] = conversation.messages.slice(0, options.upTo ?? conversation.messages.length);
+    if (options.newMessage) {
+      source.push({ role: 'user', content: options.newMessage, timestamp: new Date() });
+    }
+
+    const sizes = source.map(message => countTokens(message.content, options.model));
+    const kept = source.map((message, index) =>
+      message.role === 'developer' || message.pinned === true || message.summary === true || index === source.length - 1);
+    let tokens = sizes.reduce((sum, size, index) => sum + (kept[index] ? size : 0), 0);
+    let count = kept.filter((keep, index) => keep && source[index].role !== 'developer').length;
+
+    for (let index = source.length - 1; index >= 0; index--) {
+      if (kept[index]) continue;
+      if (tokens + sizes[index] > maxTokens || count >= maxMessages) break;
+      kept[index] = true;
+      tokens += sizes[index];
+      count++;
+    }
+
+    return {
+      // Developer messages become part of instructions
+      messages: source
+        .filter((message, index) => kept[index] && message.role !== 'developer')
+        .map(message => ({ role: message.role, content: message.content })),
+      tokens,
+      dropped: kept.filter(keep => !keep).length,
+      droppedTokens: sizes.reduce((sum, size, index) => sum + (kept[index] ? 0 : size), 0)
+    };
+  }
+
+  /**
+   * Pin or unpin the message at `index`. Pinned messages are always part of the context
+   * window and survive history trimming.
+   */
+  pinMessage(conversationId: string, index: number, pinned = true): ConversationMessage {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const message = conversation.messages[index];
+    if (!message) {
+      throw new Error(`Message index ${index} is out of range (conversation has ${conversation.messages.length} messages)`);
+    }
+
+    if (pinned) {
+      message.pinned = true;
+    } else {
+      delete message.pinned;
+    }
+    this.store?.save(conversation);
+    return message;
+  }
+
+  /**
+   * Tokens of the stored history (archive excluded), for the auto-compaction threshold.
+   */
+  historyTokens(conversationId: string, model?: string): number {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    return conversation.messages.reduce((sum, message) => sum + countTokens(message.content, model), 0);
+  }
+
+  /**
+   * The messages a compaction would fold into the rolling summary: everything except the
+   * instructions, pinned messages and the `keepRecent` newest messages. An earlier summary
+   * is included, so the new one rolls it up.
+   */
+  getCompactionCandidates(conversationId: string, keepRecent: number): ConversationMessage[] {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const recentStart = Math.max(0, conversation.messages.length - Math.max(0, keepRecent));
+    return conversation.messages.filter((message, index) => index < recentStart && message.role !== 'developer' && !message.pinned);
+  }
+
+  /**
+   * Replace the `folded` messages with one summary message after the instructions, and move
+   * them to the archive. The server-side chain still holds the folded turns, so it restarts.
+   */
+  compact(conversationId: string, summary: string, folded: ConversationMessage[]): ConversationMessage {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const foldedSet = new Set(folded);
+    const messages = conversation.messages.filter(message => !foldedSet.has(message));
+    const summaryMessage: ConversationMessage = { role: 'assistant', content: summary, timestamp: new Date(), summary: true };
+    messages.splice(messages[0]?.role === 'developer' ? 1 : 0, 0, summaryMessage);
+
+    conversation.messages = messages;
+    conversation.archive = [...(conversation.archive || []), ...folded];
+    conversation.metadata.compactions = (conversation.metadata.compactions || 0) + 1;
+    conversation.metadata.lastResponseId = undefined;
+    conversation.metadata.lastActive = new Date();
+    this.store?.save(conversation);
+    return summaryMessage;
+  }
+
   getInstructions(conversationId: string): string | undefined {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
@@ -158,7 +476,7 @@ export class ConversationManager {
     return undefined;
   }
 
-  setOptions(conversationId: string, options: Partial<{ budgetLimit: number; contextLimit: number }>): void {
+  setOptions(conversationId: string, options: Partial<{ budgetLimit: number; contextLimit: number; contextTokenLimit: number; autoCompactTokens: number; serverState: boolean; verbosity: Verbosity }>): void {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
       throw new Error(`Conversation ${conversationId} not found`);
@@ -170,7 +488,34 @@ export class ConversationManager {
     if (typeof options.contextLimit === 'number') {
       conversation.metadata.contextLimit = Math.max(1, Math.floor(options.contextLimit));
     }
+    if (typeof options.contextTokenLimit === 'number') {
+      conversation.metadata.contextTokenLimit = Math.max(1, Math.floor(options.contextTokenLimit));
+    }
+    if (typeof options.autoCompactTokens === 'number') {
+      conversation.metadata.autoCompactTokens = Math.max(0, Math.floor(options.autoCompactTokens));
+    }
+    if (options.verbosity) {
+      conversation.metadata.verbosity = options.verbosity;
+    }
+    if (typeof options.serverState === 'boolean') {
+      conversation.metadata.serverState = options.serverState;
+      if (!options.serverState) {
+        conversation.metadata.lastResponseId = undefined;
+      }
+    }
     conversation.metadata.lastActive = new Date();
+    this.store?.save(conversation);
+  }
+
+  setLastResponseId(conversationId: string, responseId: string | undefined): void {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    // Only meaningful while server-side state is enabled; a missing id breaks the chain
+    conversation.metadata.lastResponseId = conversation.metadata.serverState ? responseId : undefined;
+    this.store?.save(conversation);
   }
 
   getMetadata(conversationId: string): Conversation | undefined {
@@ -179,7 +524,7 @@ export class ConversationManager {
 
   updateMetadata(
     conversationId: string, 
-    updates: Partial<{ totalCost: number; tokenCount: number }>
+    updates: Partial<{ totalCost: number; tokenCount: number; summaryCost: number }>
   ): void {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
@@ -194,7 +539,41 @@ export class ConversationManager {
       conversation.metadata.tokenCount += updates.tokenCount;
     }
 
+    if (updates.summaryCost !== undefined) {
+      conversation.metadata.summaryCost = (conversation.metadata.summaryCost || 0) + updates.summaryCost;
+    }
+
     conversation.metadata.lastActive = new Date();
+    this.store?.save(conversation);
+  }
+
+  /**
+   * Check spending `estimatedCost` against the conversation's budget_limit. Without
+   * confirmation it is refused when it is more than what is left or less than 10% is left;
+   * with confirmation only when it is more than `hardCapMultiplier` times what is left.
+   */
+  checkBudget(
+    conversationId: string,
+    estimatedCost: number,
+    confirmSpending: boolean,
+    hardCapMultiplier: number
+  ): { allowed: boolean; needsConfirmation?: boolean; remaining?: number } {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const { budgetLimit, totalCost } = conversation.metadata;
+    if (!budgetLimit) return { allowed: true };
+
+    const remaining = Math.max(0, budgetLimit - totalCost);
+    if (!confirmSpending && (estimatedCost > remaining || remaining <= budgetLimit * 0.1)) {
+      return { allowed: false, needsConfirmation: true, remaining };
+    }
+    // Hard block extreme overspend, even when confirmed
+    if (estimatedCost > remaining * hardCapMultiplier) {
+      return { allowed: false, needsConfirmation: false, remaining };
+    }
+    return { allowed: true, remaining };
   }
 
   listConversations(): Array<{ id: string; topic?: string; created: Date; lastActive: Date }> {
@@ -209,10 +588,15 @@ export class ConversationManager {
   }
 
   deleteConversation(conversationId: string): boolean {
-    return this.conversations.delete(conversationId);
+    const deleted = this.conversations.delete(conversationId);
+    if (deleted) this.store?.remove(conversationId);
+    return deleted;
   }
 
   clearAll(): void {
+    for (const id of this.conversations.keys()) {
+      this.store?.remove(id);
+    }
     this.conversations.clear();
   }
 
@@ -246,6 +630,13 @@ export class ConversationManager {
     return `conv_${timestamp}_${random}`;
   }
 
+  // Fork the whole conversation before a change drops messages from it, so the change can be undone
+  private keepCopy(conversation: Conversation, label: string): string {
+    // Touched first so making room for the fork never evicts the conversation being changed
+    conversation.metadata.lastActive = new Date();
+    return this.forkConversation(conversation.id, undefined, `${conversation.metadata.topic || conversation.id} (${label})`);
+  }
+
   private cleanupOldestConversation(): void {
     let oldest: Conversation | null = null;
     let oldestId: string | null = null;
@@ -258,7 +649,7 @@ export class ConversationManager {
     }
 
     if (oldestId) {
-      this.conversations.delete(oldestId);
+      this.deleteConversation(oldestId);
     }
   }
 
@@ -268,30 +659,33 @@ export class ConversationManager {
       throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    return JSON.stringify(conversation, null, 2);
+    return serializeConversation(conversation);
   }
 
   importConversation(data: string): string {
     try {
-      const conversation = JSON.parse(data);
-      
-      // Convert timestamp strings back to Date objects
-      conversation.messages = conversation.messages.map((msg: any) => ({
-        ...msg,
-        timestamp: new Date(msg.timestamp)
-      }));
-      
-      conversation.metadata.created = new Date(conversation.metadata.created);
-      conversation.metadata.lastActive = new Date(conversation.metadata.lastActive);
+      const conversation = deserializeConversation(data);
 
       // Generate new ID to avoid conflicts
       const newId = this.generateId();
       conversation.id = newId;
 
       this.conversations.set(newId, conversation);
+      this.store?.save(conversation);
       return newId;
     } catch (error) {
       throw new Error(`Failed to import conversation: ${error}`);
     }
   }
 }
+
+// A new version of `message` that keeps the current text as an alternate
+function withAlternate(message: ConversationMessage, content: string): ConversationMessage {
+  return {
+    role: message.role,
+    content,
+    timestamp: new Date(),
+    alternates: [...(message.alternates || []), { content: message.content, timestamp: message.timestamp }],
+    ...(message.pinned ? { pinned: true } : {})
+  };
+}
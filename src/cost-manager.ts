@@ -1,24 +1,36 @@
 import fs from "fs/promises";
 import path from "path";
-import { TokenUsage, CostLimits, CostReport, CostBreakdown } from "./types.js";
+import { TokenUsage, CostLimits, CostReport, CostBreakdown, FallbackInfo } from "./types.js";
 
 interface UsageRecord {
   timestamp: Date;
   taskId: string;
   cost: number;
+  cacheSavings?: number;
+  model?: string;
+  fallback?: FallbackInfo;
   tokens: {
     input: number;
     output: number;
+    cached?: number;
     reasoning?: number;
   };
 }
 
+// A consult answered from the response cache: nothing was spent, `costSaved` is what the original cost
+interface CacheHitRecord {
+  timestamp: Date;
+  taskId: string;
+  costSaved: number;
+}
+
 export class CostManager {
   private dailyUsage: Map<string, number> = new Map();
   private taskUsage: Map<string, number> = new Map();
   private limits: CostLimits;
   private dataDir: string;
   private usageHistory: UsageRecord[] = [];
+  private cacheHits: CacheHitRecord[] = [];
   private currentTaskId: string | null = null;
   private persistTimer: NodeJS.Timeout | null = null;
 
@@ -45,7 +57,7 @@ export class CostManager {
     taskId: string,
     usage: TokenUsage,
     userConfirmed: boolean = false,
-    options: { record?: boolean } = { record: true }
+    options: { record?: boolean; model?: string; fallback?: FallbackInfo } = { record: true }
   ): Promise<{ allowed: boolean; reason?: string; warning?: string; needsConfirmation?: boolean }> {
     const today = new Date().toISOString().split("T")[0];
     const dailyTotal = this.dailyUsage.get(today) || 0;
@@ -80,38 +92,66 @@ export class CostManager {
       };
     }
 
-    // Generate warnings for cost awareness (informational, not blocking)
-    let warning: string | undefined;
+    const warning = this.spendingWarning(taskId, usage.estimatedCost);
+
+    // Record the usage unless caller asked for a dry-run check
+    if (options.record !== false) {
+      await this.bookUsage(taskId, usage, options.model, options.fallback);
+    }
+
+    return { allowed: true, warning };
+  }
+
+  /**
+   * Record spend that has already happened: a response that came back, or a cancelled
+   * request the API billed anyway. Unlike checkAndRecordUsage this never refuses, since the
+   * limits decide whether to make a request, not whether to book one that was made.
+   */
+  async recordUsage(
+    taskId: string,
+    usage: TokenUsage,
+    options: { model?: string; fallback?: FallbackInfo } = {}
+  ): Promise<{ warning?: string }> {
+    const warning = this.spendingWarning(taskId, usage.estimatedCost);
+    await this.bookUsage(taskId, usage, options.model, options.fallback);
+    return { warning };
+  }
+
+  // Warnings for cost awareness (informational, not blocking)
+  private spendingWarning(taskId: string, cost: number): string | undefined {
+    const today = new Date().toISOString().split("T")[0];
+    const dailyTotal = this.dailyUsage.get(today) || 0;
+    const taskTotal = this.taskUsage.get(taskId) || 0;
     const warnings: string[] = [];
 
     if (this.limits.daily) {
       const dailyPercentage =
-        ((dailyTotal + usage.estimatedCost) / this.limits.daily) * 100;
+        ((dailyTotal + cost) / this.limits.daily) * 100;
       if (dailyPercentage > 100) {
         warnings.push(
-          `Daily spending: $${(dailyTotal + usage.estimatedCost).toFixed(
+          `Daily spending: $${(dailyTotal + cost).toFixed(
             2
           )} (${dailyPercentage.toFixed(
             0
           )}% over limit of $${this.limits.daily.toFixed(2)})`
         );
-        this.sendAlert(`Daily spending exceeded limit: $${(dailyTotal + usage.estimatedCost).toFixed(2)} (> $${this.limits.daily.toFixed(2)})`);
+        this.sendAlert(`Daily spending exceeded limit: $${(dailyTotal + cost).toFixed(2)} (> $${this.limits.daily.toFixed(2)})`);
       } else if (dailyPercentage > 80) {
         warnings.push(
           `Daily usage at ${dailyPercentage.toFixed(1)}% of limit ($${(
-            dailyTotal + usage.estimatedCost
+            dailyTotal + cost
           ).toFixed(2)} / $${this.limits.daily.toFixed(2)})`
         );
-        this.sendAlert(`Daily spending at ${dailyPercentage.toFixed(1)}% of limit ($${(dailyTotal + usage.estimatedCost).toFixed(2)} / $${this.limits.daily.toFixed(2)})`);
+        this.sendAlert(`Daily spending at ${dailyPercentage.toFixed(1)}% of limit ($${(dailyTotal + cost).toFixed(2)} / $${this.limits.daily.toFixed(2)})`);
       }
     }
 
     if (this.limits.perTask) {
       const taskPercentage =
-        ((taskTotal + usage.estimatedCost) / this.limits.perTask) * 100;
+        ((taskTotal + cost) / this.limits.perTask) * 100;
       if (taskPercentage > 100) {
         warnings.push(
-          `Task spending: $${(taskTotal + usage.estimatedCost).toFixed(
+          `Task spending: $${(taskTotal + cost).toFixed(
             2
           )} (${taskPercentage.toFixed(
             0
@@ -120,7 +160,7 @@ export class CostManager {
       } else if (taskPercentage > 80) {
         warnings.push(
           `Task usage at ${taskPercentage.toFixed(1)}% of limit ($${(
-            taskTotal + usage.estimatedCost
+            taskTotal + cost
           ).toFixed(2)} / $${this.limits.perTask.toFixed(2)})`
         );
       }
@@ -128,19 +168,10 @@ export class CostManager {
 
     // Token limit warnings removed - using dynamic budget-aware limits instead
 
-    if (warnings.length > 0) {
-      warning = warnings.join("; ");
-    }
-
-    // Record the usage unless caller asked for a dry-run check
-    if (options.record !== false) {
-      await this.recordUsage(taskId, usage);
-    }
-
-    return { allowed: true, warning };
+    return warnings.length > 0 ? warnings.join("; ") : undefined;
   }
 
-  private async recordUsage(taskId: string, usage: TokenUsage): Promise<void> {
+  private async bookUsage(taskId: string, usage: TokenUsage, model?: string, fallback?: FallbackInfo): Promise<void> {
     const today = new Date().toISOString().split("T")[0];
 
     // Update daily usage
@@ -156,9 +187,13 @@ export class CostManager {
       timestamp: new Date(),
       taskId,
       cost: usage.estimatedCost,
+      cacheSavings: usage.cacheSavings,
+      model,
+      fallback,
       tokens: {
         input: usage.inputTokens,
         output: usage.outputTokens,
+        cached: usage.cachedInputTokens,
         reasoning: usage.reasoningTokens,
       },
     });
@@ -168,7 +203,16 @@ export class CostManager {
 
     // Persist data
     this.schedulePersist();
-    this.appendUsageCsv(taskId, usage).catch(() => {});
+    this.appendUsageCsv(taskId, usage, model, fallback).catch(() => {});
+  }
+
+  /**
+   * Note a response served from the response cache. This is not spend: it only feeds the
+   * savings line in reports, so budgets and daily totals are untouched.
+   */
+  recordCacheHit(taskId: string, costSaved: number): void {
+    this.cacheHits.push({ timestamp: new Date(), taskId, costSaved });
+    this.schedulePersist();
   }
 
   async getDailyReport(): Promise<{
@@ -236,6 +280,9 @@ export class CostManager {
     return {
       period: periodLabel,
       totalCost,
+      cacheSavings: this.sumCacheSavings(relevantHistory),
+      fallbacks: this.countFallbacks(relevantHistory),
+      responseCache: this.summarizeCacheHits(this.cacheHits.filter((hit) => hit.timestamp >= startDate)),
       breakdown,
       limits: this.limits,
       remaining: this.calculateRemaining(totalCost),
@@ -251,12 +298,16 @@ export class CostManager {
     const breakdown: CostBreakdown[] = taskHistory.map((record) => ({
       date: record.timestamp.toISOString(),
       cost: record.cost,
+      cacheSavings: record.cacheSavings,
       tokenUsage: record.tokens,
     }));
 
     return {
       period: `Task: ${taskId}`,
       totalCost,
+      cacheSavings: this.sumCacheSavings(taskHistory),
+      fallbacks: this.countFallbacks(taskHistory),
+      responseCache: this.summarizeCacheHits(this.cacheHits.filter((hit) => hit.taskId === taskId)),
       breakdown,
       limits: this.limits,
       remaining: {
@@ -278,14 +329,22 @@ export class CostManager {
         existing.cost += record.cost;
         existing.tokenUsage.input += record.tokens.input;
         existing.tokenUsage.output += record.tokens.output;
+        if (record.tokens.cached) {
+          existing.tokenUsage.cached =
+            (existing.tokenUsage.cached || 0) + record.tokens.cached;
+        }
         if (record.tokens.reasoning) {
           existing.tokenUsage.reasoning =
             (existing.tokenUsage.reasoning || 0) + record.tokens.reasoning;
         }
+        if (record.cacheSavings) {
+          existing.cacheSavings = (existing.cacheSavings || 0) + record.cacheSavings;
+        }
       } else {
         dailyMap.set(day, {
           date: day,
           cost: record.cost,
+          cacheSavings: record.cacheSavings,
           tokenUsage: { ...record.tokens },
         });
       }
@@ -296,6 +355,27 @@ export class CostManager {
     );
   }
 
+  private sumCacheSavings(records: UsageRecord[]): number {
+    return records.reduce((sum, record) => sum + (record.cacheSavings || 0), 0);
+  }
+
+  private countFallbacks(records: UsageRecord[]): CostReport["fallbacks"] {
+    const fallbacks: CostReport["fallbacks"] = { count: 0, byKind: {} };
+    for (const record of records) {
+      if (!record.fallback) continue;
+      fallbacks.count++;
+      fallbacks.byKind[record.fallback.kind] = (fallbacks.byKind[record.fallback.kind] || 0) + 1;
+    }
+    return fallbacks;
+  }
+
+  private summarizeCacheHits(hits: CacheHitRecord[]): CostReport["responseCache"] {
+    return {
+      hits: hits.length,
+      costSaved: Number(hits.reduce((sum, hit) => sum + hit.costSaved, 0).toFixed(4)),
+    };
+  }
+
   private calculateRemaining(_currentCost: number): {
     daily?: number;
     task?: number;
@@ -320,6 +400,9 @@ export class CostManager {
     return {
       period,
       totalCost: 0,
+      cacheSavings: 0,
+      fallbacks: { count: 0, byKind: {} },
+      responseCache: { hits: 0, costSaved: 0 },
       breakdown: [],
       limits: this.limits,
       remaining: {
@@ -364,6 +447,10 @@ export class CostManager {
           timestamp: record.timestamp.toISOString(),
         })),
         currentTaskId: this.currentTaskId,
+        cacheHits: this.cacheHits.map((hit) => ({
+          ...hit,
+          timestamp: hit.timestamp.toISOString(),
+        })),
       };
 
       await fs.writeFile(tmpFile, JSON.stringify(data, null, 2));
@@ -381,9 +468,10 @@ export class CostManager {
     }, 1000);
   }
 
-  private async appendUsageCsv(taskId: string, usage: TokenUsage): Promise<void> {
+  private async appendUsageCsv(taskId: string, usage: TokenUsage, model?: string, fallback?: FallbackInfo): Promise<void> {
     try {
       const csvFile = path.join(this.dataDir, 'usage.csv');
+      // New columns are appended so existing CSV consumers keep their column positions
       const row = [
         new Date().toISOString(),
         taskId,
@@ -391,7 +479,11 @@ export class CostManager {
         usage.outputTokens,
         usage.reasoningTokens ?? 0,
         usage.totalTokens,
-        usage.estimatedCost
+        usage.estimatedCost,
+        usage.cachedInputTokens ?? 0,
+        usage.cacheSavings ?? 0,
+        model ?? '',
+        fallback?.kind ?? ''
       ].join(',') + '\n';
       await fs.appendFile(csvFile, row, 'utf-8');
     } catch (e) {
@@ -447,6 +539,13 @@ export class CostManager {
         }));
       }
 
+      if (data.cacheHits) {
+        this.cacheHits = data.cacheHits.map((hit: any) => ({
+          ...hit,
+          timestamp: new Date(hit.timestamp),
+        }));
+      }
+
       if (data.currentTaskId) {
         this.currentTaskId = data.currentTaskId;
       }
@@ -470,6 +569,10 @@ export class CostManager {
       (record) => record.timestamp > thirtyDaysAgo
     );
 
+    this.cacheHits = this.cacheHits.filter(
+      (hit) => hit.timestamp > thirtyDaysAgo
+    );
+
     // Clean up daily usage
     const oldDays = Array.from(this.dailyUsage.keys()).filter((day) => {
       return new Date(day) < thirtyDaysAgo;
@@ -0,0 +1,47 @@
+import { TokenUsage } from './types.js';
+
+/**
+ * The MCP client cancelled the request. `usage` is an estimate of what had
+ * already been billed (the prompt, plus any streamed output) so it can still be recorded.
+ */
+export class RequestCancelledError extends Error {
+  readonly usage?: TokenUsage;
+  readonly model?: string;
+
+  constructor(usage?: TokenUsage, model?: string) {
+    super('Request was cancelled by the client');
+    this.name = 'RequestCancelledError';
+    this.usage = usage;
+    this.model = model;
+  }
+}
+
+/**
+ * The model's circuit breaker is open, so the request was refused without calling the API.
+ */
+export class CircuitOpenError extends Error {
+  constructor(reason: string) {
+    super(`Model temporarily unavailable: ${reason}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * A single OpenAI request ran past OPENAI_TIMEOUT_MS (OPENAI_STREAM_TIMEOUT_MS for streams) and was aborted.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * A replayed request has no matching exchange left in the cassette.
+ */
+export class CassetteMissError extends Error {
+  constructor(method: string, requestPath: string, cassette: string) {
+    super(`No recorded response for ${method} ${requestPath} in cassette ${cassette}`);
+    this.name = 'CassetteMissError';
+  }
+}
@@ -0,0 +1,58 @@
+import { FallbackKind, FallbackPolicy } from './types.js';
+
+export type ErrorClass = { kind: FallbackKind | 'fatal'; reason: string };
+
+const FALLBACK_POLICIES: FallbackPolicy[] = ['never', 'model_unavailable', 'transient'];
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * Read OPENAI_FALLBACK_POLICY. "transient" (the default) also covers model-unavailable errors.
+ */
+export function parseFallbackPolicy(value?: string): FallbackPolicy {
+  if (!value) return 'transient';
+  if (!FALLBACK_POLICIES.includes(value as FallbackPolicy)) {
+    throw new Error(`Invalid OPENAI_FALLBACK_POLICY "${value}": expected one of ${FALLBACK_POLICIES.join(', ')}`);
+  }
+  return value as FallbackPolicy;
+}
+
+/**
+ * Sort an API error into the buckets the fallback policy cares about. Anything that
+ * another model would fail the same way (auth, bad parameters, quota) is fatal.
+ */
+export function classifyError(error: any): ErrorClass {
+  const status: number | undefined = error?.status || error?.response?.status;
+  const code: string | undefined = error?.code || error?.error?.code;
+  const message: string = error?.message || String(error);
+  const reason = status ? `${status} ${message}` : message;
+
+  if (status === 404 || code === 'model_not_found' || /model\b.*\b(does not exist|not found|not available|unsupported)/i.test(message)) {
+    return { kind: 'model_unavailable', reason };
+  }
+  if (status === 429) {
+    // Exhausted quota is a billing problem, not a burst; another model on the same account fails too
+    return { kind: code === 'insufficient_quota' ? 'fatal' : 'transient', reason };
+  }
+  if (status === 408 || status === 409 || (status !== undefined && status >= 500)) {
+    return { kind: 'transient', reason };
+  }
+  if (status === undefined && (
+    /Connection|Timeout/.test(error?.name || '') ||
+    TRANSIENT_NETWORK_CODES.has(code || '') ||
+    /timed? ?out/i.test(message)
+  )) {
+    return { kind: 'transient', reason };
+  }
+  return { kind: 'fatal', reason };
+}
+
+export function allowsFallback(policy: FallbackPolicy, kind: FallbackKind | 'fatal'): boolean {
+  switch (policy) {
+    case 'never':
+      return false;
+    case 'model_unavailable':
+      return kind === 'model_unavailable';
+    case 'transient':
+      return kind !== 'fatal';
+  }
+}
@@ -10,10 +10,29 @@ import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import dotenv from 'dotenv';
 import winston from 'winston';
+import path from 'path';
+import { fileURLToPath } from 'url';
 
 import { GPT5Client } from './openai-client.js';
+import { createProvider, LLMProvider } from './providers.js';
+import { addUsage, PricingRegistry } from './pricing.js';
+import { parseFallbackPolicy } from './fallback.js';
 import { CostManager } from './cost-manager.js';
 import { ConversationManager } from './conversation.js';
+import { ConversationStore } from './conversation-store.js';
+import { LocalToolRegistry } from './local-tools.js';
+import { runToolLoop } from './tool-loop.js';
+import { ContextWindow, Conversation, ConversationMessage, CreateResponseParams, FallbackPolicy, GPT5Response, ReasoningEffort, TokenUsage, Verbosity } from './types.js';
+import { ProgressReporter } from './progress.js';
+import { createResponseFormat, validateStructuredOutput, buildRepairPrompt } from './structured-output.js';
+import { RequestCancelledError } from './errors.js';
+import { extractAttachments } from './attachments.js';
+import { JobManager, JobRecord } from './jobs.js';
+import { BatchManager } from './batch.js';
+import { ResponseCache } from './response-cache.js';
+import { RateLimitStatus } from './rate-limiter.js';
+import { countTokens, truncateToTokens } from './tokenizer.js';
+import { chooseRoute, routerModelsFromEnv, Route, TaskType, TASK_TYPES } from './router.js';
 
 // Load environment variables
 dotenv.config();
@@ -35,18 +54,55 @@ const logger = winston.createLogger({
   ]
 });
 
-// Validate environment
-const API_KEY = process.env.OPENAI_API_KEY;
-if (!API_KEY) {
-  logger.error('OPENAI_API_KEY environment variable is required');
+// Load model pricing: bundled registry plus optional override in DATA_DIR
+let pricingRegistry: PricingRegistry;
+try {
+  pricingRegistry = PricingRegistry.load(
+    fileURLToPath(new URL('../config/pricing.json', import.meta.url)),
+    path.join(process.env.DATA_DIR || './data', 'pricing.json')
+  );
+} catch (error: any) {
+  logger.error(error.message);
   process.exit(1);
 }
 
+// Validate environment and select the LLM provider
+let provider: LLMProvider;
+try {
+  provider = createProvider(process.env, pricingRegistry);
+} catch (error: any) {
+  logger.error(error.message);
+  process.exit(1);
+}
+
+// Decide which Responses API failures may be answered by a chat-completions model
+let fallbackPolicy: FallbackPolicy;
+try {
+  fallbackPolicy = parseFallbackPolicy(process.env.OPENAI_FALLBACK_POLICY);
+} catch (error: any) {
+  logger.error(error.message);
+  process.exit(1);
+}
+
+// Same values the tools accept; an unknown DEFAULT_VERBOSITY is left out of requests instead of sent to the API
+const VerbositySchema = z.enum(['low', 'medium', 'high']);
+let defaultVerbosity: Verbosity | undefined;
+if (process.env.DEFAULT_VERBOSITY) {
+  const parsed = VerbositySchema.safeParse(process.env.DEFAULT_VERBOSITY);
+  if (parsed.success) {
+    defaultVerbosity = parsed.data;
+  } else {
+    logger.warn(`Ignoring invalid DEFAULT_VERBOSITY "${process.env.DEFAULT_VERBOSITY}" (expected low, medium or high)`);
+  }
+}
+
 // Initialize components
 const gpt5Client = new GPT5Client(
-  API_KEY,
+  provider,
   parseFloat(process.env.DEFAULT_TEMPERATURE || '0.7'),
-  (process.env.DEFAULT_REASONING_EFFORT as any) || 'high'
+  (process.env.DEFAULT_REASONING_EFFORT as any) || 'high',
+  defaultVerbosity,
+  fallbackPolicy
   // maxTokensDefault removed - using dynamic budget-aware limits
 );
 
@@ -59,9 +115,26 @@ const costManager = new CostManager(
   process.env.DATA_DIR || './data'
 );
 
+const jobManager = new JobManager(gpt5Client, costManager, process.env.DATA_DIR || './data');
+const batchManager = new BatchManager(gpt5Client, costManager, process.env.DATA_DIR || './data');
+
+// Opt-in: repeated identical consults are answered from disk instead of the API
+const responseCache = process.env.RESPONSE_CACHE_ENABLED === 'true'
+  ? new ResponseCache(path.join(process.env.DATA_DIR || './data', 'response-cache'))
+  : undefined;
+
+// Server-side tools are only available when a workspace root is allowlisted
+const toolRegistry = process.env.TOOL_WORKSPACE_ROOT
+  ? new LocalToolRegistry(process.env.TOOL_WORKSPACE_ROOT)
+  : undefined;
+
+// Conversations are kept in DATA_DIR/conversations unless persistence is turned off
 const conversationManager = new ConversationManager(
   parseInt(process.env.MAX_CONVERSATIONS || '50'),
-  parseInt(process.env.MAX_CONVERSATION_HISTORY || '100')
+  parseInt(process.env.MAX_CONVERSATION_HISTORY || '100'),
+  process.env.CONVERSATION_PERSISTENCE !== 'false'
+    ? new ConversationStore(path.join(process.env.DATA_DIR || './data', 'conversations'))
+    : undefined
 );
 
 // Define tool schemas
@@ -69,17 +142,23 @@ const ConsultGPT5Schema = z.object({
   prompt: z.string().describe('The prompt to send to GPT-5'),
   context: z.string().optional().describe('Additional context for the prompt'),
   temperature: z.number().min(0).max(2).default(0.7).describe('Sampling temperature'),
-  reasoning_effort: z.enum(['minimal', 'low', 'medium', 'high']).default('high').describe('Reasoning effort level'),
+  reasoning_effort: z.enum(['minimal', 'low', 'medium', 'high', 'auto']).default('high').describe('Reasoning effort level; auto picks the model and effort from the task, request size and remaining daily budget'),
+  task_type: z.enum(TASK_TYPES).optional().describe('Kind of task, used by reasoning_effort=auto: quick_check and explanation go to the light model, architecture and debugging get high effort'),
+  verbosity: VerbositySchema.optional().describe('Response length: low for quick checks, high for detailed write-ups (default: DEFAULT_VERBOSITY)'),
   max_tokens: z.number().min(1).max(50000).default(20000).describe('Maximum tokens in response'),
   task_budget: z.number().optional().describe('Budget limit for this specific task in USD'),
   confirm_spending: z.boolean().default(false).describe('User confirmation to proceed with spending that exceeds daily limit'),
-  stream: z.boolean().optional().describe('Enable streaming mode (server aggregates, client still returns final text)')
+  stream: z.boolean().optional().describe('Stream text deltas and reasoning status as MCP progress notifications (requires a progress token); the final text is still returned'),
+  response_schema: z.record(z.any()).optional().describe('JSON Schema the response must conform to; the validated object is returned as structured content'),
+  enable_tools: z.boolean().default(false).describe('Let GPT-5 read files, list directories and grep under the server workspace root (TOOL_WORKSPACE_ROOT)'),
+  no_cache: z.boolean().default(false).describe('Skip the response cache and fetch a fresh answer (when RESPONSE_CACHE_ENABLED is set)')
 });
 
 const StartConversationSchema = z.object({
   topic: z.string().describe('The topic or purpose of the conversation'),
   instructions: z.string().optional().describe('System instructions for the conversation'),
-  budget_limit: z.number().optional().describe('Per-conversation budget limit in USD')
+  budget_limit: z.number().optional().describe('Per-conversation budget limit in USD'),
+  server_state: z.boolean().optional().describe('Chain turns server-side with previous_response_id instead of resending history (default: CONVERSATION_SERVER_STATE)')
 });
 
 const ContinueConversationSchema = z.object({
@@ -88,7 +167,35 @@ const ContinueConversationSchema = z.object({
   confirm_spending: z.boolean().default(false).describe('User confirmation to proceed with spending if budget is tight'),
   max_tokens: z.number().min(1).max(50000).optional().describe('Optional cap for this single response'),
   budget_limit: z.number().optional().describe('Set or override per-conversation budget in USD'),
-  stream: z.boolean().optional().describe('Enable streaming mode (server aggregates, client still returns final text)')
+  reasoning_effort: z.enum(['minimal', 'low', 'medium', 'high', 'auto']).default('high').describe('Reasoning effort for this turn; auto picks the model and effort from the message, history size and remaining daily budget'),
+  task_type: z.enum(TASK_TYPES).optional().describe('Kind of task, used by reasoning_effort=auto'),
+  verbosity: VerbositySchema.optional().describe('Response length for this turn (default: the conversation setting, then DEFAULT_VERBOSITY)'),
+  stream: z.boolean().optional().describe('Stream text deltas and reasoning status as MCP progress notifications (requires a progress token); the final text is still returned')
+});
+
+const RegenerateResponseSchema = z.object({
+  conversation_id: z.string().describe('The ID of the conversation whose last reply should be regenerated'),
+  reasoning_effort: z.enum(['minimal', 'low', 'medium', 'high']).default('high').describe('Reasoning effort for the new reply'),
+  verbosity: VerbositySchema.optional().describe('Response length (default: the conversation setting, then DEFAULT_VERBOSITY)'),
+  max_tokens: z.number().min(1).max(50000).optional().describe('Optional cap for the new reply'),
+  confirm_spending: z.boolean().default(false).describe('User confirmation to proceed with spending if budget is tight'),
+  stream: z.boolean().optional().describe('Stream text deltas and reasoning status as MCP progress notifications (requires a progress token); the final text is still returned')
+});
+
+const EditMessageSchema = RegenerateResponseSchema.extend({
+  conversation_id: z.string().describe('The ID of the conversation'),
+  message_index: z.number().int().min(0).describe('Index of the user message to edit, as listed by get_conversation_metadata'),
+  content: z.string().describe('The new text of the message')
+});
+
+const PinMessageSchema = z.object({
+  conversation_id: z.string().describe('The ID of the conversation'),
+  message_index: z.number().int().min(0).describe('Index of the message, as listed by get_conversation_metadata'),
+  pinned: z.boolean().default(true).describe('false to unpin')
+});
+
+const UndoLastExchangeSchema = z.object({
+  conversation_id: z.string().describe('The ID of the conversation')
 });
 
 const CostReportSchema = z.object({
@@ -103,17 +210,66 @@ const CostLimitSchema = z.object({
 const SetConversationOptionsSchema = z.object({
   conversation_id: z.string().describe('Conversation ID'),
   budget_limit: z.number().optional().describe('Per-conversation budget limit in USD'),
-  context_limit: z.number().int().min(1).max(1000).optional().describe('Messages to keep in context window')
+  context_limit: z.number().int().min(1).max(1000).optional().describe('Most messages to send as context, on top of the token budget'),
+  context_tokens: z.number().int().min(100).optional().describe('Token budget for the history sent with each turn (default: MAX_CONVERSATION_CONTEXT_TOKENS)'),
+  auto_compact_tokens: z.number().int().min(0).optional().describe('Summarize older turns once the history exceeds this many tokens; 0 turns it off (default: CONVERSATION_AUTO_COMPACT_TOKENS)'),
+  server_state: z.boolean().optional().describe('Chain turns server-side with previous_response_id instead of resending history'),
+  verbosity: VerbositySchema.optional().describe('Default response length for this conversation')
 });
 
 const GetConversationMetadataSchema = z.object({
   conversation_id: z.string().describe('Conversation ID')
 });
 
+const ForkConversationSchema = z.object({
+  conversation_id: z.string().describe('Conversation to fork'),
+  message_index: z.number().int().min(0).optional().describe('Index of the last message to copy, as listed by get_conversation_metadata (default: the latest message)'),
+  topic: z.string().optional().describe('Topic for the new branch (default: the parent topic)')
+});
+
+const ConversationBranchesSchema = z.object({
+  conversation_id: z.string().describe('Any conversation in the branch tree')
+});
+
 const SummarizeConversationSchema = z.object({
   conversation_id: z.string().describe('Conversation ID'),
   keep_last_n: z.number().int().min(0).max(50).default(5).describe('How many recent messages to keep verbatim'),
-  max_tokens: z.number().int().min(500).max(8000).default(2000).describe('Max tokens to allocate for summary generation')
+  max_tokens: z.number().int().min(500).max(8000).default(2000).describe('Max tokens to allocate for summary generation'),
+  confirm_spending: z.boolean().default(false).describe('User confirmation to proceed with spending that exceeds daily limit')
+});
+
+const ModelHealthSchema = z.object({});
+
+const SubmitJobSchema = z.object({
+  prompt: z.string().describe('The prompt to send to GPT-5'),
+  context: z.string().optional().describe('Additional context for the prompt'),
+  temperature: z.number().min(0).max(2).default(0.7).describe('Sampling temperature'),
+  reasoning_effort: z.enum(['minimal', 'low', 'medium', 'high']).default('high').describe('Reasoning effort level'),
+  verbosity: VerbositySchema.optional().describe('Response length (default: DEFAULT_VERBOSITY)'),
+  max_tokens: z.number().min(1).max(50000).default(20000).describe('Maximum tokens in response'),
+  confirm_spending: z.boolean().default(false).describe('User confirmation to proceed with spending that exceeds daily limit')
+});
+
+const JobIdSchema = z.object({
+  job_id: z.string().describe('Job ID returned by submit_gpt5_job')
+});
+
+const BatchConsultSchema = z.object({
+  items: z.array(z.object({
+    id: z.string().optional().describe('Your id for this item; results are keyed by it (default: item-1, item-2, ...)'),
+    prompt: z.string().describe('The prompt for this item'),
+    context: z.string().optional().describe('Additional context for this item')
+  })).min(1).max(5000).describe('Prompts to run, one request each'),
+  instructions: z.string().optional().describe('System instructions shared by every item'),
+  reasoning_effort: z.enum(['minimal', 'low', 'medium', 'high']).default('medium').describe('Reasoning effort level'),
+  verbosity: VerbositySchema.optional().describe('Response length (default: DEFAULT_VERBOSITY)'),
+  max_tokens: z.number().min(1).max(50000).default(4000).describe('Maximum response tokens per item (sent as max_output_tokens and used for the cost pre-check)'),
+  confirm_spending: z.boolean().default(false).describe('User confirmation to proceed with spending that exceeds daily limit')
+});
+
+const BatchStatusSchema = z.object({
+  batch_id: z.string().describe('Batch ID returned by batch_consult'),
+  include_results: z.boolean().default(true).describe('Include per-item results once the batch has finished')
 });
 
 // Create MCP server
@@ -129,34 +285,29 @@ const server = new Server(
   }
 );
 
-// Helper function to estimate token count (more accurate approximation)
-function estimateTokenCount(text: string): number {
-  // Better approximation considering:
-  // - English text: ~4 chars per token
-  // - Code: ~3 chars per token
-  // - Special chars: higher ratio
-  const avgCharsPerToken = text.includes('function') || text.includes('class') || text.includes('import') ? 3 : 4;
-  return Math.ceil(text.length / avgCharsPerToken);
+// Helper function to count tokens with the tokenizer of `model` (default: the primary model)
+function countModelTokens(text: string, model?: string): number {
+  return countTokens(text, model || gpt5Client.getModelName());
 }
 
 // Helper function to calculate max tokens based on remaining daily budget
-async function calculateMaxTokensFromBudget(costManager: CostManager, promptTokens: number): Promise<number> {
+async function calculateMaxTokensFromBudget(costManager: CostManager, promptTokens: number, model?: string): Promise<number> {
   const report = await costManager.getDailyReport();
   const remainingBudget = Math.max(0, report.limits.daily - report.usage.daily);
+  const pricing = gpt5Client.getResponsesPricing(model);
   
-  // GPT-5 pricing: $0.00125 per 1K input tokens, $0.01 per 1K output tokens
-  // Reserve 70% of budget for output (since output is 8x more expensive than input)
+  // Reserve 70% of budget for output (output is several times more expensive than input)
   const inputBudget = remainingBudget * 0.3;
   const outputBudget = remainingBudget * 0.7;
   
   // Calculate max input tokens from input budget
-  const maxInputFromBudget = Math.floor(inputBudget / 0.00125 * 1000);
+  const maxInputFromBudget = pricing.input > 0 ? Math.floor(inputBudget / pricing.input * 1000) : Number.MAX_SAFE_INTEGER;
   
   // Calculate max output tokens from output budget  
-  const maxOutputFromBudget = Math.floor(outputBudget / 0.01 * 1000);
+  const maxOutputFromBudget = pricing.output > 0 ? Math.floor(outputBudget / pricing.output * 1000) : Number.MAX_SAFE_INTEGER;
   
   // Total tokens = input + output, but we need to account for prompt tokens already calculated
-  const maxTotalTokens = maxInputFromBudget + maxOutputFromBudget + promptTokens;
+  const maxTotalTokens = Math.min(Number.MAX_SAFE_INTEGER, maxInputFromBudget + maxOutputFromBudget + promptTokens);
   
   // Minimum reasonable limit (always allow some usage)
   const minimumTokens = 5000;
@@ -164,6 +315,25 @@ async function calculateMaxTokensFromBudget(costManager: CostManager, promptToke
   return Math.max(minimumTokens, maxTotalTokens);
 }
 
+// Helper function to estimate the cost of a request before sending it
+function estimateRequestCost(inputTokens: number, outputTokens: number, model?: string): number {
+  const pricing = gpt5Client.getResponsesPricing(model);
+  return ((inputTokens * pricing.input) + (outputTokens * pricing.output)) / 1000;
+}
+
+// Route a reasoning_effort=auto request against what is left of today's budget
+async function routeRequest(prompt: string, promptTokens: number, resourceKinds: string[], taskType?: TaskType): Promise<Route> {
+  const report = await costManager.getDailyReport();
+  return chooseRoute({
+    prompt,
+    promptTokens,
+    resourceKinds,
+    taskType,
+    remainingBudget: report.limits.daily - report.usage.daily,
+    dailyLimit: report.limits.daily
+  }, routerModelsFromEnv(gpt5Client.getModelName()));
+}
+
 // Helper function to calculate safe input token limit considering expected output
 function calculateSafeInputTokens(maxTokens: number, promptTokens: number): number {
   // Reserve tokens for output (GPT-5 output can be 2-4x input size for complex reasoning)
@@ -172,13 +342,9 @@ function calculateSafeInputTokens(maxTokens: number, promptTokens: number): numb
   return Math.max(500, safeInput); // Always leave minimum 500 tokens for content
 }
 
-// Helper function to truncate text to fit within token limits
+// Helper function to truncate text to fit within token limits, cutting at a token boundary
 function truncateText(text: string, maxTokens: number): string {
-  const estimatedTokens = estimateTokenCount(text);
-  if (estimatedTokens <= maxTokens) return text;
-  
-  const maxChars = maxTokens * 4;
-  return text.substring(0, maxChars) + '\n\n[... content truncated to prevent token waste - file too large for current task budget ...]';
+  return truncateToTokens(text, maxTokens, gpt5Client.getModelName());
 }
 
 function truncateInstructions(text: string | undefined, maxTokens: number = parseInt(process.env.MAX_INSTRUCTION_TOKENS || '1500')): string | undefined {
@@ -234,8 +400,8 @@ async function processResources(meta?: any, maxTokens: number = 2000): Promise<s
           const footer = '\n--- End Resource ---\n';
           
           // Check remaining token budget
-          const usedTokens = estimateTokenCount(resourceContent);
-          const availableTokens = maxTokens - usedTokens - estimateTokenCount(header + footer);
+          const usedTokens = countModelTokens(resourceContent);
+          const availableTokens = maxTokens - usedTokens - countModelTokens(header + footer);
           
           if (availableTokens > 100) { // Need minimum space for content
             const truncatedText = normalizeContentSnippet(resource.text, Math.min(availableTokens, perResourceMaxTokens));
@@ -249,8 +415,8 @@ async function processResources(meta?: any, maxTokens: number = 2000): Promise<s
           const header = `\n--- Resource: ${resource.name || resource.uri || 'file'} ---\n`;
           const footer = '\n--- End Resource ---\n';
           
-          const usedTokens = estimateTokenCount(resourceContent);
-          const availableTokens = maxTokens - usedTokens - estimateTokenCount(header + footer);
+          const usedTokens = countModelTokens(resourceContent);
+          const availableTokens = maxTokens - usedTokens - countModelTokens(header + footer);
           
           if (availableTokens > 100) {
             const truncatedText = normalizeContentSnippet(resource.content, Math.min(availableTokens, perResourceMaxTokens));
@@ -270,7 +436,7 @@ async function processResources(meta?: any, maxTokens: number = 2000): Promise<s
     // Handle content array format (common in MCP)
     if (meta.content && Array.isArray(meta.content)) {
       for (const item of meta.content) {
-        const usedTokens = estimateTokenCount(resourceContent);
+        const usedTokens = countModelTokens(resourceContent);
         if (usedTokens >= maxTokens - 100) {
           resourceContent += '\n[... additional content truncated due to token limits ...]\n';
           break;
@@ -284,7 +450,7 @@ async function processResources(meta?: any, maxTokens: number = 2000): Promise<s
           const header = `\n--- Attached Content ---\n`;
           const footer = '\n--- End Content ---\n';
           
-          const availableTokens = maxTokens - usedTokens - estimateTokenCount(header + footer);
+          const availableTokens = maxTokens - usedTokens - countModelTokens(header + footer);
           if (availableTokens > 100) {
             const truncatedText = normalizeContentSnippet(item.text, Math.min(availableTokens, perResourceMaxTokens));
             resourceContent += header + truncatedText + footer;
@@ -295,7 +461,7 @@ async function processResources(meta?: any, maxTokens: number = 2000): Promise<s
           const header = `\n--- Resource: ${res.name || res.uri || 'file'} ---\n`;
           const footer = '\n--- End Resource ---\n';
           
-          const availableTokens = maxTokens - usedTokens - estimateTokenCount(header + footer);
+          const availableTokens = maxTokens - usedTokens - countModelTokens(header + footer);
           if (availableTokens > 100) {
             if (res.text) {
               const truncatedText = normalizeContentSnippet(res.text, Math.min(availableTokens, perResourceMaxTokens));
@@ -315,7 +481,7 @@ async function processResources(meta?: any, maxTokens: number = 2000): Promise<s
     if (!resourceContent && meta.text) {
       const header = `\n--- Attached Content ---\n`;
       const footer = `\n--- End Content ---\n`;
-      const availableTokens = maxTokens - estimateTokenCount(header + footer);
+      const availableTokens = maxTokens - countModelTokens(header + footer);
       
       if (availableTokens > 100) {
         const truncatedText = normalizeContentSnippet(meta.text, Math.min(availableTokens, perResourceMaxTokens));
@@ -330,8 +496,54 @@ async function processResources(meta?: any, maxTokens: number = 2000): Promise<s
   return resourceContent;
 }
 
+// Helper function to combine the prompt with its context and attached resources
+function buildConsultInput(prompt: string, context?: string, resourceContent?: string): string {
+  let input = prompt;
+
+  if (resourceContent) {
+    input = `Attached Files/Resources:\n${resourceContent}\n\n`;
+
+    if (context) {
+      input += `Context:\n${context}\n\nRequest:\n${prompt}`;
+    } else {
+      input += `Request:\n${prompt}`;
+    }
+  } else if (context) {
+    input = `Context:\n${context}\n\nRequest:\n${prompt}`;
+  }
+
+  return input;
+}
+
+// Helper function to build a progress reporter when the client asked for progress on this request
+function createProgressReporter(meta?: any): ProgressReporter | undefined {
+  const progressToken = meta?.progressToken;
+  if (progressToken === undefined || progressToken === null) return undefined;
+  return new ProgressReporter((params) => server.notification({
+    method: 'notifications/progress',
+    params: { progressToken, ...params }
+  }));
+}
+
+// Helper function to say which model answered, and why it was not the requested one
+function describeModel(response: Pick<GPT5Response, 'model' | 'fallback'>): string {
+  if (!response.model) return '';
+  return response.fallback
+    ? `Model: ${response.model} (fallback from ${response.fallback.from}, ${response.fallback.kind}: ${response.fallback.reason})`
+    : `Model: ${response.model}`;
+}
+
+// Helper function to charge what a cancelled request was already billed for
+async function recordCancellation(taskId: string, error: RequestCancelledError): Promise<string> {
+  logger.info(`${taskId} cancelled by the client`);
+  if (error.usage) {
+    await costManager.recordUsage(taskId, error.usage, { model: error.model });
+  }
+  return `⚠️ Request cancelled.${error.usage ? ` Recorded ~$${error.usage.estimatedCost.toFixed(4)} already billed (estimated).` : ''}\nTask ID: ${taskId}`;
+}
+
 // Tool handlers
-async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
+async function handleConsultGPT5(args: any, meta?: any, progress?: ProgressReporter, signal?: AbortSignal): Promise<any> {
   const params = ConsultGPT5Schema.parse(args);
   
   // Generate task ID
@@ -344,8 +556,17 @@ async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
   }
 
   try {
+    // Reject malformed schemas before spending anything
+    const responseFormat = params.response_schema ? createResponseFormat(params.response_schema) : undefined;
+    if (params.enable_tools && !toolRegistry) {
+      return {
+        type: 'text',
+        text: `❌ Server-side tools are disabled. Set TOOL_WORKSPACE_ROOT to allow GPT-5 to read files.\n\nTask ID: ${taskId}`
+      };
+    }
+
     // Calculate maximum tokens based on remaining daily budget
-    const promptTokens = estimateTokenCount(params.prompt + (params.context || ''));
+    const promptTokens = countModelTokens(params.prompt + (params.context || ''));
     const budgetBasedMaxTokens = await calculateMaxTokensFromBudget(costManager, promptTokens);
     
     // Use the smaller of user-requested max_tokens or budget-based limit
@@ -356,21 +577,17 @@ async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
     
     // Process any attached resources with smart token limiting
     const resourceContent = await processResources(meta, maxInputTokens);
+
+    // Images and PDFs are sent as input parts; only their token estimate counts against the text budget
+    const { attachments, skipped } = extractAttachments(meta);
+    const attachmentTokens = attachments.reduce((sum, attachment) => sum + attachment.estimatedTokens, 0);
+    const attachmentNote = skipped.length > 0 ? `Attachments skipped: ${skipped.join('; ')}` : '';
+    if (attachmentNote) {
+      logger.warn(`${taskId}: ${attachmentNote}`);
+    }
     
     // Build input with resources
-    let input = params.prompt;
-    
-    if (resourceContent) {
-      input = `Attached Files/Resources:\n${resourceContent}\n\n`;
-      
-      if (params.context) {
-        input += `Context:\n${params.context}\n\nRequest:\n${params.prompt}`;
-      } else {
-        input += `Request:\n${params.prompt}`;
-      }
-    } else if (params.context) {
-      input = `Context:\n${params.context}\n\nRequest:\n${params.prompt}`;
-    }
+    const input = buildConsultInput(params.prompt, params.context, resourceContent);
 
     // Inform user about effective token limit
     if (effectiveMaxTokens < params.max_tokens) {
@@ -378,20 +595,50 @@ async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
     }
 
     // Final safety check - if input is still too large, warn user
-    const finalInputTokens = estimateTokenCount(input);
+    const finalInputTokens = countModelTokens(input) + attachmentTokens;
     if (finalInputTokens > maxInputTokens) {
       logger.warn(`Input size (${finalInputTokens} tokens) may exceed safe limits for effective max_tokens=${effectiveMaxTokens}`);
     }
 
+    let route: Route | undefined;
+    let effort: ReasoningEffort;
+    if (params.reasoning_effort === 'auto') {
+      const resourceKinds = [...attachments.map(attachment => attachment.mimeType), ...(resourceContent ? ['text'] : [])];
+      route = await routeRequest(`${params.prompt}\n${params.context || ''}`, finalInputTokens, resourceKinds, params.task_type);
+      effort = route.effort;
+      logger.info(`${taskId} routed to ${route.model} with ${route.effort} effort: ${route.reason}`);
+    } else {
+      effort = params.reasoning_effort;
+    }
+    const model = route?.model;
+    const notes = [route ? `Route: ${route.model}, ${route.effort} effort (${route.reason})` : '', attachmentNote].filter(Boolean).join('\n');
+
+    // Identical questions are answered from the cache for free; tool runs depend on the workspace, so never
+    const cacheKey = responseCache && !params.enable_tools
+      ? ResponseCache.keyFor({
+          model: model || gpt5Client.getModelName(),
+          input,
+          reasoningEffort: effort,
+          temperature: params.temperature,
+          maxTokens: params.max_tokens,
+          verbosity: params.verbosity,
+          responseSchema: params.response_schema,
+          attachments
+        })
+      : undefined;
+    const cached = cacheKey && !params.no_cache ? await responseCache!.get(cacheKey) : undefined;
+
     // Pre-flight cost check with confirmation system
     const estimatedUsage = {
       inputTokens: finalInputTokens,
       outputTokens: Math.min(effectiveMaxTokens - finalInputTokens, effectiveMaxTokens * 0.7),
       totalTokens: finalInputTokens + Math.min(effectiveMaxTokens - finalInputTokens, effectiveMaxTokens * 0.7),
-      estimatedCost: ((finalInputTokens * 0.00125) + (Math.min(effectiveMaxTokens - finalInputTokens, effectiveMaxTokens * 0.7) * 0.01)) / 1000
+      estimatedCost: estimateRequestCost(finalInputTokens, Math.min(effectiveMaxTokens - finalInputTokens, effectiveMaxTokens * 0.7), model)
     };
 
-    const preCheck = await costManager.checkAndRecordUsage(taskId, estimatedUsage, params.confirm_spending, { record: false });
+    const preCheck = cached
+      ? { allowed: true }
+      : await costManager.checkAndRecordUsage(taskId, estimatedUsage, params.confirm_spending, { record: false });
     
     if (!preCheck.allowed && preCheck.needsConfirmation) {
       return {
@@ -400,17 +647,67 @@ async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
       };
     }
 
-    // Create response with budget-aware token limit
-    const response = await gpt5Client.createResponse({
-      input,
-      temperature: params.temperature,
-      reasoning: { effort: params.reasoning_effort },
-      maxTokens: effectiveMaxTokens,
-      stream: params.stream
-    });
+    let response: GPT5Response;
+    let costCheck: { warning?: string };
+    let toolLoopNote: string | undefined;
+    let cacheNote = '';
+
+    if (cached) {
+      // Nothing was spent, so the hit is reported as savings rather than recorded as usage
+      response = { text: cached.text, usage: cached.usage, raw: { cached: true }, model: cached.model };
+      costCheck = {};
+      costManager.recordCacheHit(taskId, cached.usage.estimatedCost);
+      cacheNote = `Cached response from ${cached.createdAt} (saved ~$${cached.usage.estimatedCost.toFixed(4)})`;
+      logger.info(`${taskId} answered from the response cache`);
+    } else if (params.enable_tools && toolRegistry) {
+      // The loop records every iteration itself; streaming does not apply to tool round trips
+      const loop = await runToolLoop(gpt5Client, costManager, toolRegistry, {
+        taskId,
+        input,
+        requestOptions: {
+          model,
+          temperature: params.temperature,
+          reasoning: { effort },
+          verbosity: params.verbosity,
+          maxTokens: effectiveMaxTokens,
+          responseFormat,
+          signal,
+          attachments
+        },
+        maxIterations: parseInt(process.env.TOOL_MAX_ITERATIONS || '8'),
+        maxCost: params.task_budget ?? parseFloat(process.env.TOOL_LOOP_MAX_COST || '1'),
+        confirmSpending: params.confirm_spending
+      });
+      logger.info(`Tool loop for ${taskId}: ${loop.iterations} iteration(s), ${loop.toolCalls} tool call(s), $${loop.usage.estimatedCost.toFixed(4)}`);
+      response = { ...loop.response, usage: loop.usage };
+      costCheck = {};
+      toolLoopNote = loop.stopReason;
+    } else {
+      // Create response with budget-aware token limit
+      response = await gpt5Client.createResponse({
+        input,
+        model,
+        temperature: params.temperature,
+        reasoning: { effort },
+        verbosity: params.verbosity,
+        maxTokens: effectiveMaxTokens,
+        stream: params.stream,
+        onProgress: params.stream && progress ? (event) => progress.report(event) : undefined,
+        responseFormat,
+        signal,
+        attachments
+      });
+      await progress?.flush();
+      if (response.usage.estimated) {
+        logger.warn(`No usage reported by the API for ${taskId}; recording tokenizer estimate`);
+      }
 
-    // Record actual cost (pre-flight estimation is replaced with actual usage)
-    const costCheck = await costManager.checkAndRecordUsage(taskId, response.usage, params.confirm_spending);
+      // Record actual cost (pre-flight estimation is replaced with actual usage)
+      costCheck = await costManager.recordUsage(taskId, response.usage, { model: response.model, fallback: response.fallback });
+    }
+    if (response.fallback) {
+      logger.warn(`${taskId} answered by ${response.fallback.to} instead of ${response.fallback.from} (${response.fallback.kind}): ${response.fallback.reason}`);
+    }
 
     const result = {
       content: response.text,
@@ -420,9 +717,12 @@ async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
         breakdown: {
           input: response.usage.inputTokens,
           output: response.usage.outputTokens,
+          cached: response.usage.cachedInputTokens,
           reasoning: response.usage.reasoningTokens
-        }
+        },
+        estimated: response.usage.estimated === true
       },
+      model: [describeModel(response), cacheNote, notes].filter(Boolean).join('\n'),
       taskId
     };
 
@@ -430,12 +730,48 @@ async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
       (result as any).warning = costCheck.warning;
     }
 
-    // Return in proper MCP format - GPT-5 response as main content
+    if (toolLoopNote) {
+      return {
+        type: 'text',
+        text: `⚠️ ${toolLoopNote}. GPT-5 had not produced a final answer yet.${response.text ? `\n\nPartial response:\n${response.text}` : ''}\n\n${result.model}\nTask ID: ${taskId}`
+      };
+    }
+
+    // A fallback model's answer is not what the key asks for, and a cut-off one is not the whole answer
+    const cacheable = (answer: GPT5Response) => cacheKey && !cached && !answer.fallback && !answer.incomplete;
+
+    if (responseFormat) {
+      const { result: enforced, valid } = await enforceResponseSchema(taskId, input, response, responseFormat.schema, {
+        model,
+        temperature: params.temperature,
+        reasoning: { effort },
+        verbosity: params.verbosity,
+        maxTokens: effectiveMaxTokens,
+        responseFormat,
+        signal,
+        attachments
+      }, params.confirm_spending);
+      // Only an answer that passed validation is cached, so a hit never needs a paid repair
+      if (valid && cacheable(valid)) {
+        await responseCache!.set(cacheKey!, valid);
+      }
+      return notes ? { ...enforced, note: [enforced.note, notes].filter(Boolean).join('\n') } : enforced;
+    }
+
+    if (cacheable(response)) {
+      await responseCache!.set(cacheKey!, response);
+    }
+
+    // Return in proper MCP format - GPT-5 response as main content, model attribution alongside
     return {
       type: 'text',
-      text: result.content
+      text: result.content,
+      note: result.model
     };
   } catch (error: any) {
+    if (error instanceof RequestCancelledError) {
+      return { type: 'text', text: await recordCancellation(taskId, error) };
+    }
     logger.error('Error consulting GPT-5:', error);
     return {
       type: 'text',
@@ -444,19 +780,79 @@ async function handleConsultGPT5(args: any, meta?: any): Promise<any> {
   }
 }
 
+// Validate structured output and re-prompt for a repair a bounded number of times; every attempt is charged.
+// `valid` is the response that passed validation, if any
+async function enforceResponseSchema(
+  taskId: string,
+  input: string,
+  response: GPT5Response,
+  schema: Record<string, any>,
+  requestOptions: Omit<CreateResponseParams, 'input'>,
+  confirmSpending: boolean
+): Promise<{ result: any; valid?: GPT5Response }> {
+  const maxRepairs = parseInt(process.env.STRUCTURED_OUTPUT_MAX_REPAIRS || '2');
+  let current = response;
+  let currentText = response.text;
+  let validation = validateStructuredOutput(currentText, schema);
+
+  for (let attempt = 1; !validation.valid && attempt <= maxRepairs; attempt++) {
+    // Assume a repair costs about as much as the answer it repairs
+    const check = await costManager.checkAndRecordUsage(taskId, current.usage, confirmSpending, { record: false });
+    if (!check.allowed) {
+      return {
+        result: {
+          type: 'text',
+          text: `❌ Response did not match response_schema; repairs stopped after ${attempt - 1} attempt(s): ${check.reason}${check.needsConfirmation ? '\nCall again with confirm_spending=true to allow repairs.' : ''}\n${validation.errors.map(e => `- ${e}`).join('\n')}\n\nLast response:\n${currentText}\n\n${describeModel(current)}\nTask ID: ${taskId}`
+        }
+      };
+    }
+
+    logger.info(`Structured output failed validation for ${taskId}; repair attempt ${attempt}/${maxRepairs}`);
+    const repair = await gpt5Client.createResponse({
+      ...requestOptions,
+      input: buildRepairPrompt(input, currentText, validation.errors)
+    });
+    await costManager.recordUsage(taskId, repair.usage, { model: repair.model, fallback: repair.fallback });
+    current = repair;
+    currentText = repair.text;
+    validation = validateStructuredOutput(currentText, schema);
+  }
+
+  if (!validation.valid) {
+    return {
+      result: {
+        type: 'text',
+        text: `❌ Response did not match response_schema after ${maxRepairs} repair attempt(s):\n${validation.errors.map(e => `- ${e}`).join('\n')}\n\nLast response:\n${currentText}\n\n${describeModel(current)}\nTask ID: ${taskId}`
+      }
+    };
+  }
+
+  return {
+    result: {
+      type: 'text',
+      text: JSON.stringify(validation.value, null, 2),
+      structuredContent: validation.value,
+      note: describeModel(current)
+    },
+    valid: current
+  };
+}
+
 async function handleStartConversation(args: any): Promise<any> {
   const params = StartConversationSchema.parse(args);
   
   try {
+    const serverState = (params.server_state ?? process.env.CONVERSATION_SERVER_STATE === 'true') && gpt5Client.supportsServerState();
     const conversationId = conversationManager.startConversation(
       params.topic,
       params.instructions,
-      params.budget_limit
+      params.budget_limit,
+      serverState
     );
 
     return {
       type: 'text',
-      text: `✅ Started conversation: ${conversationId}\nTopic: ${params.topic}${params.budget_limit ? `\nBudget limit: $${params.budget_limit.toFixed(2)}` : ''}`
+      text: `✅ Started conversation: ${conversationId}\nTopic: ${params.topic}${params.budget_limit ? `\nBudget limit: $${params.budget_limit.toFixed(2)}` : ''}${serverState ? '\nContext: server-side (previous_response_id)' : ''}`
     };
   } catch (error: any) {
     logger.error('Error starting conversation:', error);
@@ -467,8 +863,249 @@ async function handleStartConversation(args: any): Promise<any> {
   }
 }
 
-async function handleContinueConversation(args: any): Promise<any> {
+interface ConversationTurn {
+  // Conversation history to answer
+  context: ContextWindow;
+  // Chain from this stored response and send only `newMessage` instead of `messages`
+  previousResponseId?: string;
+  newMessage?: string;
+  // Routed model for reasoning_effort=auto; the primary model otherwise
+  model?: string;
+  reasoningEffort: ReasoningEffort;
+  verbosity?: Verbosity;
+  maxTokens?: number;
+  confirmSpending: boolean;
+  stream?: boolean;
+}
+
+interface ConversationTurnResult {
+  response: GPT5Response;
+  costCheck: { warning?: string };
+  contextMode: string;
+  context: ContextWindow;
+}
+
+interface TurnEstimate {
+  // Output cap for the reply, from max_tokens and the remaining daily budget
+  maxTokens: number;
+  usage: TokenUsage;
+}
+
+// Pre-flight size and cost of one assistant reply
+async function estimateConversationTurn(
+  conversation: Conversation,
+  turn: Pick<ConversationTurn, 'context' | 'previousResponseId' | 'newMessage' | 'model' | 'maxTokens'>
+): Promise<TurnEstimate> {
+  const instructions = truncateInstructions(conversationManager.getInstructions(conversation.id));
+  // A chained response is billed for the whole stored chain, so estimate on full history
+  const estimationMessages = turn.previousResponseId
+    ? conversationManager.formatForAPI(conversation.id, turn.newMessage, conversation.messages.length)
+    : turn.context.messages;
+  const textForEstimation = [
+    instructions ? `Instructions:\n${instructions}` : '',
+    ...estimationMessages.map((m: any) => `${m.role}: ${m.content}`)
+  ].filter(Boolean).join('\n');
+
+  const promptTokens = countModelTokens(textForEstimation, turn.model);
+  const budgetBasedMaxTokens = await calculateMaxTokensFromBudget(costManager, promptTokens, turn.model);
+  const effectiveMaxTokens = Math.min(budgetBasedMaxTokens, turn.maxTokens ?? budgetBasedMaxTokens);
+  const maxInputTokens = calculateSafeInputTokens(effectiveMaxTokens, promptTokens);
+
+  const inputTokens = Math.min(promptTokens, maxInputTokens);
+  const outputTokens = Math.min(effectiveMaxTokens - promptTokens, Math.floor(effectiveMaxTokens * 0.7));
+  return {
+    maxTokens: effectiveMaxTokens,
+    usage: {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      estimatedCost: estimateRequestCost(inputTokens, outputTokens, turn.model)
+    }
+  };
+}
+
+// The daily/task cost check and the per-conversation budget check. Returns the text to show
+// instead of the turn when either stops it
+async function checkTurnBudget(conversation: Conversation, taskId: string, estimatedUsage: TokenUsage, confirmSpending: boolean): Promise<string | undefined> {
+  const preCheck = await costManager.checkAndRecordUsage(taskId, estimatedUsage, confirmSpending, { record: false });
+  if (!preCheck.allowed && preCheck.needsConfirmation) {
+    return `⚠️ Cost confirmation required. ${preCheck.reason}\nCall again with confirm_spending=true to proceed.\nTask ID: ${taskId}`;
+  }
+
+  // Past this multiple of what is left, a turn is refused even when confirmed
+  const hardCapMultiplier = parseFloat(process.env.CONVERSATION_HARD_CAP_MULTIPLIER || '10');
+  const budget = conversationManager.checkBudget(conversation.id, estimatedUsage.estimatedCost, confirmSpending, hardCapMultiplier);
+  if (budget.allowed) return undefined;
+  const remaining = budget.remaining ?? 0;
+  if (budget.needsConfirmation) {
+    return `⚠️ Conversation budget check: remaining $${remaining.toFixed(2)} of $${conversation.metadata.budgetLimit!.toFixed(2)}. This turn estimated $${estimatedUsage.estimatedCost.toFixed(4)}.\nCall again with confirm_spending=true to proceed, or increase budget_limit.`;
+  }
+  return `❌ This turn's estimated cost $${estimatedUsage.estimatedCost.toFixed(4)} exceeds ${hardCapMultiplier}x remaining conversation budget ($${remaining.toFixed(2)}).`;
+}
+
+// Budget, send and bill one assistant reply. Placing the reply in the history is up to the caller;
+// returns the text to show instead when a budget check stops the turn
+async function runConversationTurn(
+  conversation: Conversation,
+  taskId: string,
+  turn: ConversationTurn,
+  progress?: ProgressReporter,
+  signal?: AbortSignal
+): Promise<ConversationTurnResult | string> {
+  const instructions = truncateInstructions(conversationManager.getInstructions(conversation.id));
+  costManager.startNewTask(taskId);
+
+  const estimate = await estimateConversationTurn(conversation, turn);
+  const refusal = await checkTurnBudget(conversation, taskId, estimate.usage, turn.confirmSpending);
+  if (refusal) return refusal;
+
+  // Create response with budget-aware settings
+  const requestOptions: Omit<CreateResponseParams, 'input'> = {
+    instructions,
+    model: turn.model,
+    temperature: 0.7,
+    reasoning: { effort: turn.reasoningEffort },
+    verbosity: turn.verbosity || conversation.metadata.verbosity,
+    maxTokens: estimate.maxTokens,
+    stream: turn.stream,
+    onProgress: turn.stream && progress ? (event) => progress.report(event) : undefined,
+    signal
+  };
+
+  let response: GPT5Response | undefined;
+  let contextMode = 'local history';
+  if (turn.previousResponseId && turn.newMessage) {
+    try {
+      // Instructions are not inherited from the previous response, so they are resent every turn
+      response = await gpt5Client.createResponse({
+        ...requestOptions,
+        input: [{ role: 'user', content: turn.newMessage }],
+        previousResponseId: turn.previousResponseId
+      });
+      contextMode = 'server-side (previous_response_id)';
+    } catch (error: any) {
+      if (error instanceof RequestCancelledError) throw error;
+      // Stored responses expire; rebuild the context from local history
+      logger.warn(`previous_response_id ${turn.previousResponseId} rejected, replaying local history:`, error.message || error);
+      conversationManager.setLastResponseId(conversation.id, undefined);
+      contextMode = 'local history (stored response unavailable)';
+    }
+  }
+  if (!response) {
+    response = await gpt5Client.createResponse({ ...requestOptions, input: turn.context.messages });
+  }
+  await progress?.flush();
+
+  // A chat-completions answer has no server-side state to chain from
+  conversationManager.setLastResponseId(conversation.id, response.responseId);
+
+  // Record cost and get warnings; replaced and undone replies stay billed
+  const costCheck = await costManager.recordUsage(taskId, response.usage, { model: response.model, fallback: response.fallback });
+  conversationManager.updateMetadata(conversation.id, {
+    totalCost: response.usage.estimatedCost,
+    tokenCount: response.usage.totalTokens
+  });
+
+  return { response, costCheck, contextMode, context: turn.context };
+}
+
+function describeConversationTurn(conversation: Conversation, { response, costCheck, contextMode, context }: ConversationTurnResult, note?: string): string {
+  // Only local history is windowed; a server-side chain carries everything
+  const windowed = !contextMode.startsWith('server-side');
+  const trimmed = conversation.metadata.trimmedMessages || 0;
+  const summaryLines = [
+    `💬 Conversation: ${conversation.id}`,
+    note || null,
+    costCheck.warning ? `⚠️ ${costCheck.warning}` : null,
+    `Tokens: in=${response.usage.inputTokens}${response.usage.cachedInputTokens ? ` (cached=${response.usage.cachedInputTokens})` : ''}, out=${response.usage.outputTokens}${response.usage.reasoningTokens ? ` (reasoning=${response.usage.reasoningTokens})` : ''}, total=${response.usage.totalTokens}${response.usage.estimated ? ' (estimated)' : ''}`,
+    `Estimated cost: $${response.usage.estimatedCost.toFixed(4)}`,
+    describeModel(response),
+    conversation.metadata.serverState ? `Context: ${contextMode}` : null,
+    windowed && context.dropped > 0 ? `Context window: ${context.messages.length} message(s), ~${context.tokens} tokens; ${context.dropped} older message(s) (~${context.droppedTokens} tokens) left out` : null,
+    trimmed > 0 ? `History: ${trimmed} oldest message(s) trimmed by MAX_CONVERSATION_HISTORY` : null,
+    conversation.metadata.budgetLimit ? `Conversation budget: $${conversation.metadata.totalCost.toFixed(4)} / $${conversation.metadata.budgetLimit.toFixed(2)}` : null
+  ].filter(Boolean);
+
+  return `${response.text}\n\n---\n${summaryLines.join('\n')}`;
+}
+
+interface Compaction {
+  folded: number;
+  archived: number;
+  response: GPT5Response;
+}
+
+interface CompactionPlan {
+  // Messages to fold, including an earlier summary
+  candidates: ConversationMessage[];
+  input: string;
+  model?: string;
+  maxTokens: number;
+  // Priced at the whole output cap, so the budget checks never underestimate it
+  estimatedUsage: TokenUsage;
+}
+
+// Work out the summary request that folds everything but the `keepRecent` newest messages.
+// Returns undefined when there is nothing new to fold
+function planCompaction(conversation: Conversation, keepRecent: number, maxTokens: number): CompactionPlan | undefined {
+  const candidates = conversationManager.getCompactionCandidates(conversation.id, keepRecent);
+  if (!candidates.some(message => !message.summary)) return undefined;
+
+  const input = [
+    'Summarize the following conversation messages into a concise brief that preserves key decisions, facts, constraints, and pending questions. Use bullet points. Keep it under 300 words.\n',
+    ...candidates.map(m => `${m.summary ? 'EARLIER SUMMARY' : m.role.toUpperCase()}: ${m.content}`)
+  ].join('\n');
+  const model = process.env.CONVERSATION_SUMMARY_MODEL || undefined;
+  const inputTokens = countModelTokens(input, model);
+
+  return {
+    candidates,
+    input,
+    model,
+    maxTokens,
+    estimatedUsage: {
+      inputTokens,
+      outputTokens: maxTokens,
+      totalTokens: inputTokens + maxTokens,
+      estimatedCost: estimateRequestCost(inputTokens, maxTokens, model)
+    }
+  };
+}
+
+// Send a planned summary and fold the messages into it, billed to the task and the conversation
+async function compactConversation(
+  conversation: Conversation,
+  taskId: string,
+  { candidates, input, model, maxTokens }: CompactionPlan,
+  signal?: AbortSignal
+): Promise<Compaction> {
+  const response = await gpt5Client.createResponse({
+    input,
+    model,
+    reasoning: { effort: (process.env.CONVERSATION_SUMMARY_EFFORT || 'low') as ReasoningEffort },
+    maxTokens,
+    signal
+  });
+
+  await costManager.recordUsage(taskId, response.usage, { model: response.model, fallback: response.fallback });
+  conversationManager.updateMetadata(conversation.id, {
+    totalCost: response.usage.estimatedCost,
+    tokenCount: response.usage.totalTokens,
+    summaryCost: response.usage.estimatedCost
+  });
+  conversationManager.compact(conversation.id, `Conversation summary (compressed):\n${response.text}`, candidates);
+
+  return { folded: candidates.length, archived: conversation.archive?.length || 0, response };
+}
+
+function describeCompaction({ folded, archived, response }: Compaction): string {
+  return `Summarized ${folded} older message(s) into a rolling summary (~$${response.usage.estimatedCost.toFixed(4)}, ${response.usage.totalTokens} tokens). ${archived} original message(s) kept in the archive.`;
+}
+
+async function handleContinueConversation(args: any, progress?: ProgressReporter, signal?: AbortSignal): Promise<any> {
   const params = ContinueConversationSchema.parse(args);
+  // Task ID for this interaction
+  const taskId = `conv_${params.conversation_id}_${Date.now()}`;
   
   try {
     // Get conversation context
@@ -482,98 +1119,185 @@ async function handleContinueConversation(args: any): Promise<any> {
       conversation.metadata.budgetLimit = params.budget_limit;
     }
 
-    // Add user message
+    // The message joins the history together with the reply, so a refused, failed or
+    // cancelled turn leaves the conversation as it was
+    costManager.startNewTask(taskId);
+
+    const historyTokens = conversationManager.historyTokens(params.conversation_id, gpt5Client.getModelName())
+      + countModelTokens(params.message);
+    let route: Route | undefined;
+    let effort: ReasoningEffort;
+    if (params.reasoning_effort === 'auto') {
+      route = await routeRequest(params.message, historyTokens, [], params.task_type);
+      effort = route.effort;
+      logger.info(`${taskId} routed to ${route.model} with ${route.effort} effort: ${route.reason}`);
+    } else {
+      effort = params.reasoning_effort;
+    }
+    const model = route?.model;
+    // With server-side state only the new turn is sent; the stored response carries the rest
+    const chainFrom = () => conversation.metadata.serverState && gpt5Client.supportsServerState()
+      ? conversation.metadata.lastResponseId
+      : undefined;
+
+    // Fold older turns into the rolling summary once the history outgrows the threshold
+    let compactionNote: string | undefined;
+    const autoCompactTokens = conversation.metadata.autoCompactTokens ?? parseInt(process.env.CONVERSATION_AUTO_COMPACT_TOKENS || '0');
+    const plan = autoCompactTokens > 0 && historyTokens > autoCompactTokens
+      ? planCompaction(conversation, parseInt(process.env.CONVERSATION_COMPACT_KEEP_RECENT || '6'), parseInt(process.env.CONVERSATION_SUMMARY_MAX_TOKENS || '2000'))
+      : undefined;
+    if (plan) {
+      // The summary is billed even if the turn is then refused, so the two pass the budget checks
+      // together first, with the turn priced on the history before compaction
+      const estimate = await estimateConversationTurn(conversation, {
+        context: conversationManager.selectContext(params.conversation_id, { newMessage: params.message, model: model || gpt5Client.getModelName() }),
+        previousResponseId: chainFrom(),
+        newMessage: params.message,
+        model,
+        maxTokens: params.max_tokens
+      });
+      addUsage(estimate.usage, plan.estimatedUsage);
+      const refusal = await checkTurnBudget(conversation, taskId, estimate.usage, params.confirm_spending);
+      if (refusal) return { type: 'text', text: refusal };
+
+      try {
+        compactionNote = `🗜️ ${describeCompaction(await compactConversation(conversation, taskId, plan, signal))}`;
+      } catch (error: any) {
+        if (error instanceof RequestCancelledError) throw error;
+        // The turn still works with the full history; only the saving is lost
+        logger.warn(`Auto-compaction of ${params.conversation_id} failed:`, error.message || error);
+        compactionNote = `⚠️ Auto-compaction failed (${error.message || 'unknown error'}); full history sent.`;
+      }
+    }
+    const previousResponseId = chainFrom();
+    const notes = [route ? `Route: ${route.model}, ${route.effort} effort (${route.reason})` : '', compactionNote].filter(Boolean).join('\n');
+
+    const result = await runConversationTurn(conversation, taskId, {
+      context: conversationManager.selectContext(params.conversation_id, { newMessage: params.message, model: model || gpt5Client.getModelName() }),
+      previousResponseId,
+      newMessage: params.message,
+      model,
+      reasoningEffort: effort,
+      verbosity: params.verbosity,
+      maxTokens: params.max_tokens,
+      // Already approved together with the summary, on the larger uncompacted history
+      confirmSpending: params.confirm_spending || plan !== undefined,
+      stream: params.stream
+    }, progress, signal);
+    if (typeof result === 'string') return { type: 'text', text: result };
+
     conversationManager.addMessage(params.conversation_id, 'user', params.message);
+    conversationManager.addMessage(params.conversation_id, 'assistant', result.response.text);
 
-    // Get formatted messages for API with context limit
-    const contextLimit = parseInt(process.env.MAX_CONVERSATION_CONTEXT || '10');
-    const messages = conversationManager.formatForAPI(params.conversation_id, undefined, contextLimit);
-    const instructions = truncateInstructions(conversationManager.getInstructions(params.conversation_id));
+    return { type: 'text', text: describeConversationTurn(conversation, result, notes || undefined) };
+  } catch (error: any) {
+    if (error instanceof RequestCancelledError) {
+      return { type: 'text', text: await recordCancellation(taskId, error) };
+    }
+    logger.error('Error continuing conversation:', error);
+    return { type: 'text', text: `❌ Error continuing conversation ${params.conversation_id}: ${error.message || 'Unknown error'}` };
+  }
+}
 
-    // Generate task ID for this interaction
-    const taskId = `conv_${params.conversation_id}_${Date.now()}`;
-    costManager.startNewTask(taskId);
+async function handleRegenerateResponse(args: any, progress?: ProgressReporter, signal?: AbortSignal): Promise<any> {
+  const params = RegenerateResponseSchema.parse(args);
+  const taskId = `conv_${params.conversation_id}_${Date.now()}`;
 
-    // Pre-flight budgeting
-    const textForEstimation = [
-      instructions ? `Instructions:\n${instructions}` : '',
-      ...messages.map((m: any) => `${m.role}: ${m.content}`)
-    ].filter(Boolean).join('\n');
+  try {
+    const conversation = conversationManager.getConversation(params.conversation_id);
+    if (!conversation) {
+      return { type: 'text', text: `❌ Conversation not found: ${params.conversation_id}` };
+    }
+    const lastIndex = conversation.messages.length - 1;
+    if (conversation.messages[lastIndex]?.role !== 'assistant') {
+      return { type: 'text', text: `❌ Nothing to regenerate: conversation ${params.conversation_id} does not end with an assistant reply` };
+    }
 
-    const promptTokens = estimateTokenCount(textForEstimation);
-    const budgetBasedMaxTokens = await calculateMaxTokensFromBudget(costManager, promptTokens);
-    const userMax = typeof params.max_tokens === 'number' ? params.max_tokens : undefined;
-    const effectiveMaxTokens = Math.min(budgetBasedMaxTokens, userMax ?? budgetBasedMaxTokens);
-    const maxInputTokens = calculateSafeInputTokens(effectiveMaxTokens, promptTokens);
+    // The stored chain ends with the reply being replaced, so the history is always resent
+    const result = await runConversationTurn(conversation, taskId, {
+      context: conversationManager.selectContext(params.conversation_id, { upTo: lastIndex, model: gpt5Client.getModelName() }),
+      reasoningEffort: params.reasoning_effort,
+      verbosity: params.verbosity,
+      maxTokens: params.max_tokens,
+      confirmSpending: params.confirm_spending,
+      stream: params.stream
+    }, progress, signal);
+    if (typeof result === 'string') return { type: 'text', text: result };
 
-    // Pre-flight cost check
-    const estimatedUsage = {
-      inputTokens: Math.min(promptTokens, maxInputTokens),
-      outputTokens: Math.min(effectiveMaxTokens - promptTokens, Math.floor(effectiveMaxTokens * 0.7)),
-      totalTokens: 0 as any,
-      estimatedCost: 0 as any
-    } as any;
-    estimatedUsage.totalTokens = estimatedUsage.inputTokens + (estimatedUsage.outputTokens || 0);
-    estimatedUsage.estimatedCost = ((estimatedUsage.inputTokens * 0.00125) + ((estimatedUsage.outputTokens || 0) * 0.01)) / 1000;
-
-    const preCheck = await costManager.checkAndRecordUsage(taskId, estimatedUsage, params.confirm_spending, { record: false });
-    if (!preCheck.allowed && preCheck.needsConfirmation) {
-      return {
-        type: 'text',
-        text: `⚠️ Cost confirmation required. ${preCheck.reason}\nCall again with confirm_spending=true to proceed.\nTask ID: ${taskId}`
-      };
+    const reply = conversationManager.replaceLastReply(params.conversation_id, result.response.text);
+    return {
+      type: 'text',
+      text: describeConversationTurn(conversation, result, `🔁 Regenerated with ${params.reasoning_effort} effort; ${reply.alternates!.length} earlier version(s) kept as alternates`)
+    };
+  } catch (error: any) {
+    if (error instanceof RequestCancelledError) {
+      return { type: 'text', text: await recordCancellation(taskId, error) };
     }
+    logger.error('Error regenerating response:', error);
+    return { type: 'text', text: `❌ Error regenerating response in ${params.conversation_id}: ${error.message || 'Unknown error'}` };
+  }
+}
 
-    // Per-conversation budget check
-    if (conversation.metadata.budgetLimit) {
-      const remainingConv = Math.max(0, conversation.metadata.budgetLimit - conversation.metadata.totalCost);
-      if (!params.confirm_spending && (estimatedUsage.estimatedCost > remainingConv || remainingConv <= conversation.metadata.budgetLimit * 0.1)) {
-        return {
-          type: 'text',
-          text: `⚠️ Conversation budget check: remaining $${remainingConv.toFixed(2)} of $${conversation.metadata.budgetLimit.toFixed(2)}. This turn estimated $${estimatedUsage.estimatedCost.toFixed(4)}.\nCall again with confirm_spending=true to proceed, or increase budget_limit.`
-        };
-      }
-      // Hard block extreme overspend (configurable multiplier of remaining)
-      const hardCapMultiplier = parseFloat(process.env.CONVERSATION_HARD_CAP_MULTIPLIER || '10');
-      if (estimatedUsage.estimatedCost > remainingConv * hardCapMultiplier) {
-        return { type: 'text', text: `❌ This turn's estimated cost $${estimatedUsage.estimatedCost.toFixed(4)} exceeds ${hardCapMultiplier}x remaining conversation budget ($${remainingConv.toFixed(2)}).` };
-      }
+async function handleEditMessage(args: any, progress?: ProgressReporter, signal?: AbortSignal): Promise<any> {
+  const params = EditMessageSchema.parse(args);
+  const taskId = `conv_${params.conversation_id}_${Date.now()}`;
+
+  try {
+    const conversation = conversationManager.getConversation(params.conversation_id);
+    if (!conversation) {
+      return { type: 'text', text: `❌ Conversation not found: ${params.conversation_id}` };
+    }
+    if (conversation.messages[params.message_index]?.role !== 'user') {
+      return { type: 'text', text: `❌ Message ${params.message_index} of ${params.conversation_id} is not a user message` };
     }
 
-    // Create response with budget-aware settings
-    const response = await gpt5Client.createResponse({
-      input: messages,
-      instructions,
-      temperature: 0.7,
-      reasoning: { effort: 'high' },
-      maxTokens: effectiveMaxTokens,
+    // Nothing changes in the history until the new reply has arrived
+    const result = await runConversationTurn(conversation, taskId, {
+      context: conversationManager.selectContext(params.conversation_id, { newMessage: params.content, upTo: params.message_index, model: gpt5Client.getModelName() }),
+      reasoningEffort: params.reasoning_effort,
+      verbosity: params.verbosity,
+      maxTokens: params.max_tokens,
+      confirmSpending: params.confirm_spending,
       stream: params.stream
-    });
-
-    // Record cost and get warnings
-    const costCheck = await costManager.checkAndRecordUsage(taskId, response.usage);
+    }, progress, signal);
+    if (typeof result === 'string') return { type: 'text', text: result };
 
-    // Add assistant response to conversation
-    conversationManager.addMessage(params.conversation_id, 'assistant', response.text);
-    
-    // Update conversation metadata
-    conversationManager.updateMetadata(params.conversation_id, {
-      totalCost: response.usage.estimatedCost,
-      tokenCount: response.usage.totalTokens
-    });
+    const { dropped, forkId } = conversationManager.editMessage(params.conversation_id, params.message_index, params.content, result.response.text);
+    const note = `✏️ Edited message ${params.message_index} and re-ran from there${forkId ? `; ${dropped} later message(s) dropped, the conversation before the edit is kept as ${forkId}` : ''}`;
+    return { type: 'text', text: describeConversationTurn(conversation, result, note) };
+  } catch (error: any) {
+    if (error instanceof RequestCancelledError) {
+      return { type: 'text', text: await recordCancellation(taskId, error) };
+    }
+    logger.error('Error editing message:', error);
+    return { type: 'text', text: `❌ Error editing message in ${params.conversation_id}: ${error.message || 'Unknown error'}` };
+  }
+}
 
-    const summaryLines = [
-      `💬 Conversation: ${params.conversation_id}`,
-      costCheck.warning ? `⚠️ ${costCheck.warning}` : null,
-      `Tokens: in=${response.usage.inputTokens}, out=${response.usage.outputTokens}, total=${response.usage.totalTokens}`,
-      `Estimated cost: $${response.usage.estimatedCost.toFixed(4)}`,
-      conversation.metadata.budgetLimit ? `Conversation budget: $${conversation.metadata.totalCost.toFixed(4)} / $${conversation.metadata.budgetLimit.toFixed(2)}` : null
-    ].filter(Boolean);
+async function handlePinMessage(args: any): Promise<any> {
+  const params = PinMessageSchema.parse(args);
+  try {
+    const message = conversationManager.pinMessage(params.conversation_id, params.message_index, params.pinned);
+    const preview = message.content.length > 80 ? `${message.content.slice(0, 80)}...` : message.content;
+    return {
+      type: 'text',
+      text: `📌 ${params.pinned ? 'Pinned' : 'Unpinned'} message ${params.message_index} of ${params.conversation_id} (${message.role}): ${preview}`
+    };
+  } catch (error: any) {
+    return { type: 'text', text: `❌ Failed to pin message: ${error.message || 'Unknown error'}` };
+  }
+}
 
-    return { type: 'text', text: `${response.text}\n\n---\n${summaryLines.join('\n')}` };
+async function handleUndoLastExchange(args: any): Promise<any> {
+  const params = UndoLastExchangeSchema.parse(args);
+  try {
+    const { removed, forkId } = conversationManager.undoLastExchange(params.conversation_id);
+    return {
+      type: 'text',
+      text: `↩️ Removed the last exchange from ${params.conversation_id} (${removed.length} message(s)). Its cost stays recorded. The conversation before the undo is kept as ${forkId}.`
+    };
   } catch (error: any) {
-    logger.error('Error continuing conversation:', error);
-    return { type: 'text', text: `❌ Error continuing conversation ${params.conversation_id}: ${error.message || 'Unknown error'}` };
+    return { type: 'text', text: `❌ Failed to undo: ${error.message || 'Unknown error'}` };
   }
 }
 
@@ -587,9 +1311,16 @@ async function handleGetCostReport(args: any): Promise<any> {
       report: {
         period: report.period,
         total_cost: report.totalCost.toFixed(4),
+        prompt_cache_savings: report.cacheSavings.toFixed(4),
+        fallbacks: report.fallbacks,
+        response_cache: {
+          hits: report.responseCache.hits,
+          cost_saved: report.responseCache.costSaved.toFixed(4)
+        },
         breakdown: report.breakdown.map(item => ({
           date: item.date,
           cost: item.cost.toFixed(4),
+          cache_savings: (item.cacheSavings || 0).toFixed(4),
           tokens: item.tokenUsage
         })),
         limits: {
@@ -642,11 +1373,18 @@ async function handleSetCostLimits(args: any): Promise<any> {
 async function handleSetConversationOptions(args: any): Promise<any> {
   const params = SetConversationOptionsSchema.parse(args);
   try {
+    if (params.server_state && !gpt5Client.supportsServerState()) {
+      return { type: 'text', text: `❌ Failed to set options: server_state requires a provider with the Responses API` };
+    }
     conversationManager.setOptions(params.conversation_id, {
       budgetLimit: params.budget_limit,
-      contextLimit: params.context_limit
+      contextLimit: params.context_limit,
+      contextTokenLimit: params.context_tokens,
+      autoCompactTokens: params.auto_compact_tokens,
+      serverState: params.server_state,
+      verbosity: params.verbosity
     });
-    return { type: 'text', text: `✅ Updated conversation ${params.conversation_id}${params.budget_limit ? `\nBudget limit: $${params.budget_limit.toFixed(2)}` : ''}${params.context_limit ? `\nContext limit: ${params.context_limit}` : ''}` };
+    return { type: 'text', text: `✅ Updated conversation ${params.conversation_id}${params.budget_limit ? `\nBudget limit: $${params.budget_limit.toFixed(2)}` : ''}${params.context_limit ? `\nContext limit: ${params.context_limit}` : ''}${params.context_tokens ? `\nContext token budget: ${params.context_tokens}` : ''}${typeof params.auto_compact_tokens === 'number' ? `\nAuto-compaction: ${params.auto_compact_tokens > 0 ? `above ${params.auto_compact_tokens} tokens` : 'off'}` : ''}${typeof params.server_state === 'boolean' ? `\nServer-side state: ${params.server_state ? 'on' : 'off'}` : ''}${params.verbosity ? `\nVerbosity: ${params.verbosity}` : ''}` };
   } catch (error: any) {
     return { type: 'text', text: `❌ Failed to set options: ${error.message || 'Unknown error'}` };
   }
@@ -659,41 +1397,266 @@ async function handleGetConversationMetadata(args: any): Promise<any> {
   return { type: 'text', text: JSON.stringify(meta, null, 2) };
 }
 
-async function handleSummarizeConversation(args: any): Promise<any> {
+async function handleForkConversation(args: any): Promise<any> {
+  const params = ForkConversationSchema.parse(args);
+  try {
+    const forkId = conversationManager.forkConversation(params.conversation_id, params.message_index, params.topic);
+    const fork = conversationManager.getConversation(forkId)!;
+    return {
+      type: 'text',
+      text: `🌿 Forked ${params.conversation_id} after message ${fork.metadata.branchPoint}\nNew conversation: ${forkId}\nMessages copied: ${fork.messages.length}\nNo API call was made; the branch's cost is tracked separately from here on.`
+    };
+  } catch (error: any) {
+    return { type: 'text', text: `❌ Failed to fork conversation: ${error.message || 'Unknown error'}` };
+  }
+}
+
+async function handleGetConversationBranches(args: any): Promise<any> {
+  const params = ConversationBranchesSchema.parse(args);
+  const tree = conversationManager.getBranchTree(params.conversation_id);
+  if (!tree) return { type: 'text', text: `❌ Conversation not found: ${params.conversation_id}` };
+  return { type: 'text', text: JSON.stringify(tree, null, 2) };
+}
+
+async function handleSummarizeConversation(args: any, signal?: AbortSignal): Promise<any> {
   const params = SummarizeConversationSchema.parse(args);
   const conversation = conversationManager.getConversation(params.conversation_id);
   if (!conversation) return { type: 'text', text: `❌ Conversation not found: ${params.conversation_id}` };
 
-  // Build summary prompt
-  const keep = Math.max(0, params.keep_last_n);
-  const messages = conversation.messages;
-  const hasDev = messages[0]?.role === 'developer';
-  const prefix = hasDev ? messages[0] : null;
-  const headIndex = hasDev ? 1 : 0;
-  const recent = messages.slice(Math.max(headIndex, messages.length - keep));
-  const toSummarize = messages.slice(headIndex, Math.max(headIndex, messages.length - keep));
+  const taskId = `conv_${params.conversation_id}_${Date.now()}`;
+  costManager.startNewTask(taskId);
 
-  const summaryInput = [
-    'Summarize the following conversation messages into a concise brief that preserves key decisions, facts, constraints, and pending questions. Use bullet points. Keep it under 300 words.\n',
-    ...toSummarize.map(m => `${m.role.toUpperCase()}: ${m.content}`)
-  ].join('\n');
+  try {
+    const plan = planCompaction(conversation, params.keep_last_n, params.max_tokens);
+    if (!plan) {
+      return { type: 'text', text: `ℹ️ Nothing to summarize: conversation ${params.conversation_id} has no messages older than the last ${params.keep_last_n}.` };
+    }
+    const refusal = await checkTurnBudget(conversation, taskId, plan.estimatedUsage, params.confirm_spending);
+    if (refusal) return { type: 'text', text: refusal };
+    const compaction = await compactConversation(conversation, taskId, plan, signal);
+    return { type: 'text', text: `✅ ${describeCompaction(compaction)}
+${describeModel(compaction.response)}` };
+  } catch (error: any) {
+    if (error instanceof RequestCancelledError) {
+      return { type: 'text', text: await recordCancellation(taskId, error) };
+    }
+    logger.error('Error summarizing conversation:', error);
+    return { type: 'text', text: `❌ Error summarizing conversation ${params.conversation_id}: ${error.message || 'Unknown error'}` };
+  }
+}
 
-  const response = await gpt5Client.createResponse({
-    input: summaryInput,
-    reasoning: { effort: 'low' },
-    maxTokens: params.max_tokens
+async function handleGetModelHealth(args: any): Promise<any> {
+  ModelHealthSchema.parse(args ?? {});
+  const circuits = gpt5Client.getCircuitStatus();
+  return {
+    provider: provider.name,
+    fallback_policy: fallbackPolicy,
+    circuits: circuits.map(circuit => ({
+      model: circuit.model,
+      endpoint: circuit.endpoint,
+      state: circuit.state,
+      consecutive_failures: circuit.consecutiveFailures,
+      total_failures: circuit.totalFailures,
+      total_successes: circuit.totalSuccesses,
+      last_error: circuit.lastError,
+      last_failure_at: circuit.lastFailureAt,
+      retry_at: circuit.retryAt
+    })),
+    open_circuits: circuits.filter(circuit => circuit.state !== 'closed').length,
+    rate_limit: describeRateLimit(gpt5Client.getRateLimitStatus())
+  };
+}
+
+function describeRateLimit(status: RateLimitStatus): Record<string, any> {
+  return {
+    requests_per_minute: status.requestsPerMinute || null,
+    tokens_per_minute: status.tokensPerMinute || null,
+    available_requests: status.availableRequests,
+    available_tokens: status.availableTokens,
+    queue_depth: status.queueDepth,
+    paused_until: status.pausedUntil,
+    pause_reason: status.pauseReason,
+    waited_requests: status.waitedRequests,
+    average_wait_ms: status.averageWaitMs,
+    max_wait_ms: status.maxWaitMs,
+    last_wait_ms: status.lastWaitMs
+  };
+}
+
+// Submit a consult request as a job and return its id without waiting for the answer
+async function handleSubmitJob(args: any, meta?: any): Promise<any> {
+  const params = SubmitJobSchema.parse(args);
+  const taskId = `task_${Date.now()}`;
+  costManager.startNewTask(taskId);
+
+  const promptTokens = countModelTokens(params.prompt + (params.context || ''));
+  const budgetBasedMaxTokens = await calculateMaxTokensFromBudget(costManager, promptTokens);
+  const effectiveMaxTokens = Math.min(params.max_tokens, budgetBasedMaxTokens);
+  const resourceContent = await processResources(meta, calculateSafeInputTokens(effectiveMaxTokens, promptTokens));
+
+  const input = buildConsultInput(params.prompt, params.context, resourceContent);
+
+  // Jobs cannot ask for confirmation later, so the pre-flight check happens at submission
+  const inputTokens = countModelTokens(input);
+  const outputTokens = Math.min(effectiveMaxTokens - inputTokens, effectiveMaxTokens * 0.7);
+  const estimatedCost = estimateRequestCost(inputTokens, outputTokens);
+  const preCheck = await costManager.checkAndRecordUsage(taskId, {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    estimatedCost
+  }, params.confirm_spending, { record: false });
+  if (!preCheck.allowed) {
+    return {
+      type: 'text',
+      text: preCheck.needsConfirmation
+        ? `⚠️  Cost Confirmation Required\n\n${preCheck.reason}\n\nTo proceed, call this tool again with confirm_spending=true\n\nEstimated cost: $${estimatedCost.toFixed(4)}\nTask ID: ${taskId}`
+        : `❌ ${preCheck.reason}\nTask ID: ${taskId}`
+    };
+  }
+
+  const job = await jobManager.submit(taskId, {
+    input,
+    temperature: params.temperature,
+    reasoning: { effort: params.reasoning_effort },
+    verbosity: params.verbosity,
+    maxTokens: effectiveMaxTokens
   });
+  logger.info(`Submitted ${job.id} (${job.mode}) for ${taskId}`);
+  return {
+    type: 'text',
+    text: `✅ Job submitted: ${job.id}\nMode: ${job.mode === 'background' ? 'Responses API background' : 'in-process'}\nEstimated cost: $${estimatedCost.toFixed(4)}\nTask ID: ${taskId}\n\nCheck progress with get_job_status and fetch the answer with get_job_result.`
+  };
+}
+
+function describeJob(job: JobRecord): Record<string, any> {
+  return {
+    job_id: job.id,
+    task_id: job.taskId,
+    status: job.status,
+    mode: job.mode,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+    completed_at: job.completedAt,
+    model: job.result?.model,
+    cost: job.result?.usage.estimatedCost,
+    error: job.error
+  };
+}
 
-  // Replace messages with summary + recent
-  const newMessages: any[] = [];
-  if (prefix) newMessages.push(prefix);
-  newMessages.push({ role: 'assistant', content: `Conversation summary (compressed):\n${response.text}`, timestamp: new Date() });
-  for (const m of recent) newMessages.push(m);
+async function handleGetJobStatus(args: any): Promise<any> {
+  const params = JobIdSchema.parse(args);
+  const job = await jobManager.get(params.job_id);
+  if (!job) return { type: 'text', text: `❌ Job not found: ${params.job_id}` };
+  return describeJob(job);
+}
 
-  (conversation as any).messages = newMessages as any;
-  conversation.metadata.lastActive = new Date();
+async function handleGetJobResult(args: any): Promise<any> {
+  const params = JobIdSchema.parse(args);
+  const job = await jobManager.get(params.job_id);
+  if (!job) return { type: 'text', text: `❌ Job not found: ${params.job_id}` };
+  if (job.status === 'queued' || job.status === 'in_progress') {
+    return { type: 'text', text: `⏳ Job ${job.id} is ${job.status.replace('_', ' ')}. Try again later.\nTask ID: ${job.taskId}` };
+  }
+  if (!job.result) {
+    return { type: 'text', text: `❌ Job ${job.id} ${job.status}: ${job.error || 'no result'}\nTask ID: ${job.taskId}` };
+  }
+  const modelLine = describeModel(job.result);
+  return {
+    type: 'text',
+    text: `${job.result.text}\n\n---\n${job.result.incomplete ? '⚠️ Response incomplete (stopped before finishing)\n' : ''}${modelLine ? `${modelLine}\n` : ''}Cost: $${job.result.usage.estimatedCost.toFixed(4)}\nTask ID: ${job.taskId}`
+  };
+}
 
-  return { type: 'text', text: `✅ Conversation summarized. Kept last ${keep} messages. Summary tokens ~${response.usage.totalTokens}.` };
+async function handleCancelJob(args: any): Promise<any> {
+  const params = JobIdSchema.parse(args);
+  const job = await jobManager.cancel(params.job_id);
+  if (!job) return { type: 'text', text: `❌ Job not found: ${params.job_id}` };
+  if (job.status !== 'cancelled') {
+    return { type: 'text', text: `Job ${job.id} already ${job.status}; nothing to cancel.` };
+  }
+  const cost = job.result ? ` Recorded $${job.result.usage.estimatedCost.toFixed(4)} already billed.` : '';
+  return { type: 'text', text: `✅ Job ${job.id} cancelled.${cost}\nTask ID: ${job.taskId}` };
+}
+
+// Submit many prompts as one Batch API job, priced at batch rates
+async function handleBatchConsult(args: any): Promise<any> {
+  const params = BatchConsultSchema.parse(args);
+  if (!gpt5Client.supportsBatch()) {
+    return { type: 'text', text: `❌ batch_consult needs the Responses API; the ${provider.name} provider does not support it.` };
+  }
+
+  const taskId = `task_${Date.now()}`;
+  costManager.startNewTask(taskId);
+  // Results are keyed by id, so a chosen id must not match one generated for another item
+  const generatedIds = new Set(params.items.map((item, index) => item.id ? undefined : `item-${index + 1}`));
+  const clash = params.items.find(item => item.id && generatedIds.has(item.id));
+  if (clash) {
+    return { type: 'text', text: `❌ Item id "${clash.id}" is also the generated id of another item. Give every item an id, or avoid ids of the form item-N.` };
+  }
+
+  const instructions = truncateInstructions(params.instructions);
+  const items = params.items.map((item, index) => ({
+    id: item.id || `item-${index + 1}`,
+    params: {
+      input: buildConsultInput(item.prompt, item.context),
+      instructions,
+      reasoning: { effort: params.reasoning_effort },
+      verbosity: params.verbosity,
+      maxTokens: params.max_tokens
+    }
+  }));
+
+  // The whole batch is checked up front at batch rates, every item at its output cap
+  const pricing = gpt5Client.getBatchPricing();
+  const instructionTokens = instructions ? countModelTokens(instructions) : 0;
+  let inputTokens = 0;
+  for (const item of items) {
+    inputTokens += countModelTokens(item.params.input) + instructionTokens;
+  }
+  const outputTokens = items.length * params.max_tokens;
+  const estimatedCost = ((inputTokens * pricing.input) + (outputTokens * pricing.output)) / 1000;
+  const preCheck = await costManager.checkAndRecordUsage(taskId, {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    estimatedCost
+  }, params.confirm_spending, { record: false });
+  if (!preCheck.allowed) {
+    return {
+      type: 'text',
+      text: preCheck.needsConfirmation
+        ? `⚠️  Cost Confirmation Required\n\n${preCheck.reason}\n\nTo proceed, call this tool again with confirm_spending=true\n\nEstimated cost: $${estimatedCost.toFixed(4)} for ${items.length} item(s) at batch rates\nTask ID: ${taskId}`
+        : `❌ ${preCheck.reason}\nTask ID: ${taskId}`
+    };
+  }
+
+  const batch = await batchManager.submit(taskId, items, estimatedCost);
+  logger.info(`Submitted batch ${batch.id} with ${items.length} item(s) for ${taskId}`);
+  return {
+    type: 'text',
+    text: `✅ Batch submitted: ${batch.id}\nItems: ${items.length}\nEstimated cost: $${estimatedCost.toFixed(4)} (batch rates)\nTask ID: ${taskId}\n\nBatches can take up to 24 hours. Check progress and fetch results with get_batch_status.`
+  };
+}
+
+async function handleGetBatchStatus(args: any): Promise<any> {
+  const params = BatchStatusSchema.parse(args);
+  const batch = await batchManager.get(params.batch_id);
+  if (!batch) return { type: 'text', text: `❌ Batch not found: ${params.batch_id}` };
+  return {
+    batch_id: batch.id,
+    task_id: batch.taskId,
+    status: batch.status,
+    request_counts: batch.requestCounts,
+    estimated_cost: Number(batch.estimatedCost.toFixed(4)),
+    cost: batch.usage?.estimatedCost,
+    created_at: batch.createdAt,
+    completed_at: batch.completedAt,
+    error: batch.error,
+    results: params.include_results && batch.results
+      ? batch.results.map(result => ({ id: result.customId, text: result.text, error: result.error, cost: result.usage?.estimatedCost }))
+      : undefined
+  };
 }
 
 // Register tool handlers
@@ -714,6 +1677,26 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description: 'Continue an existing conversation with GPT-5',
       inputSchema: zodToJsonSchema(ContinueConversationSchema) as any
     },
+    {
+      name: 'regenerate_response',
+      description: 'Replace the last GPT-5 reply in a conversation with a new one, optionally at a different reasoning effort',
+      inputSchema: zodToJsonSchema(RegenerateResponseSchema) as any
+    },
+    {
+      name: 'edit_message',
+      description: 'Edit an earlier user message in a conversation and re-run the conversation from there; the conversation before the edit is kept as a fork',
+      inputSchema: zodToJsonSchema(EditMessageSchema) as any
+    },
+    {
+      name: 'pin_message',
+      description: 'Pin a conversation message so it is always sent as context and never trimmed',
+      inputSchema: zodToJsonSchema(PinMessageSchema) as any
+    },
+    {
+      name: 'undo_last_exchange',
+      description: 'Remove the last user message and GPT-5 reply from a conversation; the conversation before the undo is kept as a fork',
+      inputSchema: zodToJsonSchema(UndoLastExchangeSchema) as any
+    },
     {
       name: 'get_cost_report',
       description: 'Get a report of current costs and usage',
@@ -734,15 +1717,60 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description: 'Return conversation metadata and messages',
       inputSchema: zodToJsonSchema(GetConversationMetadataSchema) as any
     },
+    {
+      name: 'fork_conversation',
+      description: 'Copy a conversation up to a chosen message into a new conversation to explore an alternative direction',
+      inputSchema: zodToJsonSchema(ForkConversationSchema) as any
+    },
+    {
+      name: 'get_conversation_branches',
+      description: 'Show the branch tree (parent and forks) a conversation belongs to',
+      inputSchema: zodToJsonSchema(ConversationBranchesSchema) as any
+    },
     {
       name: 'summarize_conversation',
-      description: 'Summarize a conversation to reduce context size',
+      description: 'Fold older messages of a conversation into a rolling summary to reduce context size; the originals are archived',
       inputSchema: zodToJsonSchema(SummarizeConversationSchema) as any
+    },
+    {
+      name: 'get_model_health',
+      description: 'Show circuit breaker state and failure counts for each model and endpoint, and the rate limiter queue',
+      inputSchema: zodToJsonSchema(ModelHealthSchema) as any
+    },
+    {
+      name: 'submit_gpt5_job',
+      description: 'Submit a long-running GPT-5 request and return a job ID immediately',
+      inputSchema: zodToJsonSchema(SubmitJobSchema) as any
+    },
+    {
+      name: 'get_job_status',
+      description: 'Check the status of a GPT-5 job',
+      inputSchema: zodToJsonSchema(JobIdSchema) as any
+    },
+    {
+      name: 'get_job_result',
+      description: 'Fetch the answer of a finished GPT-5 job',
+      inputSchema: zodToJsonSchema(JobIdSchema) as any
+    },
+    {
+      name: 'cancel_job',
+      description: 'Cancel a queued or running GPT-5 job',
+      inputSchema: zodToJsonSchema(JobIdSchema) as any
+    },
+    {
+      name: 'batch_consult',
+      description: 'Run many GPT-5 prompts as one Batch API job at batch pricing',
+      inputSchema: zodToJsonSchema(BatchConsultSchema) as any
+    },
+    {
+      name: 'get_batch_status',
+      description: 'Check a batch and fetch its per-item results once finished',
+      inputSchema: zodToJsonSchema(BatchStatusSchema) as any
     }
   ]
 }));
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
   const requestId = `req_${Date.now().toString(36)}_${Math.random().toString(36).slice(2,8)}`;
 
@@ -759,15 +1787,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
 
     switch (name) {
-      case 'consult_gpt5':
-        return { content: [toContent(await handleConsultGPT5(args, request.params._meta))] };
+      case 'consult_gpt5': {
+        // Structured results carry the parsed object alongside the text content; the model
+        // attribution is a separate item so it never corrupts the answer or its JSON
+        const { structuredContent, note, ...result } = await handleConsultGPT5(args, request.params._meta, createProgressReporter(request.params._meta), extra.signal);
+        const content = note ? [toContent(result), { type: 'text', text: note }] : [toContent(result)];
+        return structuredContent !== undefined ? { content, structuredContent } : { content };
+      }
       
       case 'start_conversation':
         return { content: [toContent(await handleStartConversation(args))] };
       
       case 'continue_conversation':
-        return { content: [toContent(await handleContinueConversation(args))] };
+        return { content: [toContent(await handleContinueConversation(args, createProgressReporter(request.params._meta), extra.signal))] };
       
+      case 'regenerate_response':
+        return { content: [toContent(await handleRegenerateResponse(args, createProgressReporter(request.params._meta), extra.signal))] };
+
+      case 'edit_message':
+        return { content: [toContent(await handleEditMessage(args, createProgressReporter(request.params._meta), extra.signal))] };
+
+      case 'pin_message':
+        return { content: [toContent(await handlePinMessage(args))] };
+
+      case 'undo_last_exchange':
+        return { content: [toContent(await handleUndoLastExchange(args))] };
+
       case 'get_cost_report':
         return { content: [toContent(await handleGetCostReport(args))] };
       
@@ -780,8 +1825,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'get_conversation_metadata':
         return { content: [toContent(await handleGetConversationMetadata(args))] };
       
+      case 'fork_conversation':
+        return { content: [toContent(await handleForkConversation(args))] };
+
+      case 'get_conversation_branches':
+        return { content: [toContent(await handleGetConversationBranches(args))] };
+
       case 'summarize_conversation':
-        return { content: [toContent(await handleSummarizeConversation(args))] };
+        return { content: [toContent(await handleSummarizeConversation(args, extra.signal))] };
+
+      case 'get_model_health':
+        return { content: [toContent(await handleGetModelHealth(args))] };
+
+      case 'submit_gpt5_job':
+        return { content: [toContent(await handleSubmitJob(args, request.params._meta))] };
+
+      case 'get_job_status':
+        return { content: [toContent(await handleGetJobStatus(args))] };
+
+      case 'get_job_result':
+        return { content: [toContent(await handleGetJobResult(args))] };
+
+      case 'cancel_job':
+        return { content: [toContent(await handleCancelJob(args))] };
+
+      case 'batch_consult':
+        return { content: [toContent(await handleBatchConsult(args))] };
+
+      case 'get_batch_status':
+        return { content: [toContent(await handleGetBatchStatus(args))] };
       
       default:
         throw new Error(`Unknown tool: ${name}`);
@@ -798,7 +1870,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 async function main() {
   try {
     // Test OpenAI connection
-    logger.info('Testing OpenAI API connection...');
+    logger.info(`Testing ${provider.name} API connection...`);
     const connected = await gpt5Client.testConnection();
     if (!connected) {
       logger.warn('OpenAI API connection test failed - check your API key');
@@ -806,16 +1878,25 @@ async function main() {
       logger.info('OpenAI API connection successful');
     }
 
+    const restored = await conversationManager.load();
+    if (restored > 0) {
+      logger.info(`Restored ${restored} conversation(s) from disk`);
+    }
+
     // Start MCP server
     const transport = new StdioServerTransport();
+    server.onclose = () => { shutdown('transport closed'); };
     await server.connect(transport);
     
     logger.info('GPT-5 MCP Server is running');
     logger.info('Configuration:', {
+      provider: provider.name,
+      pricingEffectiveDate: pricingRegistry.effectiveDate,
       dailyLimit: process.env.DAILY_COST_LIMIT || '10',
       taskLimit: process.env.TASK_COST_LIMIT || '2',
       defaultTemperature: process.env.DEFAULT_TEMPERATURE || '0.7',
-      defaultReasoningEffort: process.env.DEFAULT_REASONING_EFFORT || 'high'
+      defaultReasoningEffort: process.env.DEFAULT_REASONING_EFFORT || 'high',
+      fallbackPolicy
     });
   } catch (error) {
     logger.error('Failed to start server:', error);
@@ -823,18 +1904,31 @@ async function main() {
   }
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('Shutting down GPT-5 MCP Server...');
-  try { await costManager.flush(); } catch {}
-  process.exit(0);
-});
+// Write out everything persisted in the background. Runs once: every shutdown path ends here
+let flushing: Promise<void> | undefined;
+function flushAll(): Promise<void> {
+  flushing ??= (async () => {
+    try { await costManager.flush(); } catch {}
+    try { await jobManager.flush(); } catch {}
+    try { await batchManager.flush(); } catch {}
+    try { await conversationManager.flush(); } catch {}
+  })();
+  return flushing;
+}
 
-process.on('SIGTERM', async () => {
-  logger.info('Shutting down GPT-5 MCP Server...');
-  try { await costManager.flush(); } catch {}
+async function shutdown(reason: string): Promise<void> {
+  logger.info(`Shutting down GPT-5 MCP Server (${reason})...`);
+  await flushAll();
   process.exit(0);
-});
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+// Most clients stop the server by closing stdin rather than sending a signal
+process.stdin.on('end', () => shutdown('stdin closed'));
+// Pending writes use unref'd timers, so the process can run out of work before they fire
+process.on('beforeExit', () => { flushAll(); });
 
 // Run the server
 main().catch((error) => {
@@ -0,0 +1,213 @@
+import { BackgroundResponse, CreateResponseParams, FallbackInfo, TokenUsage } from './types.js';
+import { GPT5Client } from './openai-client.js';
+import { CostManager } from './cost-manager.js';
+import { RequestCancelledError } from './errors.js';
+import { PolledStore } from './polled-store.js';
+
+export type JobStatus = 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+// background: queued with the Responses API and polled; local: run in this process
+export type JobMode = 'background' | 'local';
+
+export type JobRequest = Pick<CreateResponseParams, 'input' | 'instructions' | 'temperature' | 'reasoning' | 'verbosity' | 'maxTokens'>;
+
+export interface JobRecord {
+  id: string;
+  taskId: string;
+  status: JobStatus;
+  mode: JobMode;
+  request: JobRequest;
+  responseId?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  result?: {
+    text: string;
+    usage: TokenUsage;
+    model?: string;
+    fallback?: FallbackInfo;
+    // The model stopped early (e.g. max_output_tokens) but the partial answer is kept
+    incomplete?: boolean;
+  };
+  error?: string;
+}
+
+// Finished jobs are dropped from jobs.json after this long
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Runs consult requests detached from the MCP call that submitted them, so a long
+ * high-effort request cannot hit the client's tool timeout. Jobs live in DATA_DIR/jobs.json;
+ * background-mode jobs are picked up again after a restart, local ones cannot be.
+ */
+export class JobManager extends PolledStore<JobRecord, BackgroundResponse> {
+  // Local jobs still running in this process
+  private running: Map<string, { controller: AbortController; done: Promise<void> }> = new Map();
+
+  constructor(
+    client: GPT5Client,
+    costManager: CostManager,
+    dataDir = './data',
+    pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000')
+  ) {
+    super(client, costManager, { label: 'job', fileName: 'jobs.json', key: 'jobs', dataDir, pollIntervalMs, retentionMs: JOB_RETENTION_MS });
+  }
+
+  async submit(taskId: string, request: JobRequest): Promise<JobRecord> {
+    await this.ready;
+    const now = new Date().toISOString();
+    const job: JobRecord = {
+      id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      taskId,
+      status: 'queued',
+      mode: 'local',
+      request,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.records.set(job.id, job);
+
+    if (this.client.supportsBackground() && process.env.JOB_BACKGROUND_MODE !== 'false') {
+      try {
+        job.responseId = await this.client.startBackgroundResponse(request);
+        job.mode = 'background';
+        await this.persist();
+        this.startPolling();
+        return job;
+      } catch (error: any) {
+        console.warn(`Background mode unavailable for ${job.id} (${error.message}); running it in-process`);
+      }
+    }
+
+    job.status = 'in_progress';
+    await this.persist();
+    const controller = new AbortController();
+    this.running.set(job.id, { controller, done: this.runLocal(job, controller.signal) });
+    return job;
+  }
+
+  /**
+   * The job, refreshed from the API first if it is still running in background mode.
+   */
+  async get(jobId: string): Promise<JobRecord | undefined> {
+    await this.ready;
+    const job = this.records.get(jobId);
+    if (job && this.needsPolling(job)) {
+      await this.refresh(job);
+    }
+    return job;
+  }
+
+  async cancel(jobId: string): Promise<JobRecord | undefined> {
+    await this.ready;
+    const job = this.records.get(jobId);
+    if (!job || this.isFinished(job)) return job;
+
+    if (job.mode === 'local') {
+      // runLocal records the partial usage and marks the job cancelled
+      const run = this.running.get(job.id);
+      run?.controller.abort();
+      await run?.done;
+      return job;
+    }
+
+    const state = await this.client.cancelBackgroundResponse(job.responseId!);
+    if (state.status === 'cancelled' || state.status === 'failed') {
+      await this.finish(job, 'cancelled', state.response, 'Cancelled by the client');
+    } else {
+      // The response finished before the cancel reached it
+      await this.update(job, state);
+    }
+    return job;
+  }
+
+  protected isFinished(job: JobRecord): boolean {
+    return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+  }
+
+  protected needsPolling(job: JobRecord): boolean {
+    return job.mode === 'background' && !this.isFinished(job);
+  }
+
+  protected restore(job: JobRecord): boolean {
+    if (job.mode !== 'local' || this.isFinished(job)) return false;
+    // The request died with the previous process; there is nothing to resume
+    job.status = 'failed';
+    job.error = 'Server restarted before the job finished';
+    job.completedAt = job.updatedAt = new Date().toISOString();
+    return true;
+  }
+
+  protected fetchState(job: JobRecord): Promise<BackgroundResponse> {
+    return this.client.getBackgroundResponse(job.responseId!);
+  }
+
+  protected async applyState(job: JobRecord, state: BackgroundResponse): Promise<void> {
+    switch (state.status) {
+      case 'queued':
+      case 'in_progress':
+        if (job.status !== state.status) {
+          job.status = state.status;
+          job.updatedAt = new Date().toISOString();
+          await this.persist();
+        }
+        return;
+      case 'completed':
+      case 'incomplete':
+        await this.finish(job, 'completed', state.response, undefined, state.status === 'incomplete');
+        return;
+      case 'failed':
+        await this.finish(job, 'failed', state.response, state.error);
+        return;
+      case 'cancelled':
+        await this.finish(job, 'cancelled', state.response, 'Cancelled');
+        return;
+    }
+  }
+
+  private async runLocal(job: JobRecord, signal: AbortSignal): Promise<void> {
+    try {
+      // Streamed so a long job gets OPENAI_STREAM_TIMEOUT_MS instead of the short
+      // per-request timeout, and a cancel still knows how much text was produced
+      const response = await this.client.createResponse({ ...job.request, stream: true, signal });
+      await this.finish(job, 'completed', response);
+    } catch (error: any) {
+      if (error instanceof RequestCancelledError) {
+        if (error.usage) {
+          await this.recordCost(job, error.usage, { model: error.model });
+        }
+        await this.finish(job, 'cancelled', undefined, 'Cancelled by the client');
+      } else {
+        await this.finish(job, 'failed', undefined, error.message || String(error));
+      }
+    } finally {
+      this.running.delete(job.id);
+    }
+  }
+
+  private async finish(
+    job: JobRecord,
+    status: JobStatus,
+    response?: { text: string; usage: TokenUsage; model?: string; fallback?: FallbackInfo },
+    error?: string,
+    incomplete?: boolean
+  ): Promise<void> {
+    if (this.isFinished(job)) return;
+    const now = new Date().toISOString();
+    job.status = status;
+    job.updatedAt = now;
+    job.completedAt = now;
+    if (response) {
+      job.result = {
+        text: response.text,
+        usage: response.usage,
+        model: response.model,
+        fallback: response.fallback,
+        ...(incomplete ? { incomplete: true } : {})
+      };
+      await this.recordCost(job, response.usage, { model: response.model, fallback: response.fallback });
+    }
+    if (error) job.error = error;
+    await this.persist();
+  }
+}
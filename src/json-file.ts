@@ -0,0 +1,50 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * A JSON file that is replaced atomically: each write goes to a temp file that is then
+ * renamed over the old one, so a crash mid-write never leaves half a file behind.
+ */
+export class JsonFile {
+  private file: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * The parsed contents, or undefined when the file is missing or not valid JSON.
+   */
+  async read(): Promise<any | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write `data` once every earlier write has finished. Failures are logged, not thrown.
+   */
+  write(data: unknown): Promise<void> {
+    // Writes are chained so two updates never race on the temp file
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.writeFile(this.file + '.tmp', JSON.stringify(data, null, 2));
+        await fs.rename(this.file + '.tmp', this.file);
+      } catch (error) {
+        console.error(`Failed to write ${this.file}:`, error);
+      }
+    });
+    return this.writing;
+  }
+
+  /**
+   * Wait for pending writes.
+   */
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+}
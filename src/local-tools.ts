@@ -0,0 +1,240 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { LocalToolDefinition } from './types.js';
+
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules', 'dist', 'coverage']);
+const MAX_GREP_PATTERN_LENGTH = 500;
+const MAX_GREP_LINE_LENGTH = 1000;
+
+// Runs in a worker so a catastrophic-backtracking pattern can be terminated
+// instead of blocking the event loop. Receives the lines of one file and the
+// number of matches still wanted, answers with the matching line indexes.
+const MATCHER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const regex = new RegExp(workerData.pattern);
+parentPort.on('message', ({ lines, limit }) => {
+  const hits = [];
+  for (let i = 0; i < lines.length && hits.length < limit; i++) {
+    if (regex.test(lines[i])) hits.push(i);
+  }
+  parentPort.postMessage(hits);
+});
+`;
+
+/**
+ * Read-only tools GPT-5 can call on the server. Every path is resolved inside
+ * the workspace root (symlinks included) and anything outside it is refused.
+ */
+export class LocalToolRegistry {
+  private root: string;
+  private maxReadBytes: number;
+  private maxGrepResults: number;
+  private grepTimeoutMs: number;
+
+  constructor(
+    root: string,
+    maxReadBytes = parseInt(process.env.TOOL_MAX_READ_BYTES || '65536'),
+    maxGrepResults = parseInt(process.env.TOOL_MAX_GREP_RESULTS || '100'),
+    grepTimeoutMs = parseInt(process.env.TOOL_GREP_TIMEOUT_MS || '5000')
+  ) {
+    this.root = path.resolve(root);
+    this.maxReadBytes = maxReadBytes;
+    this.maxGrepResults = maxGrepResults;
+    this.grepTimeoutMs = grepTimeoutMs;
+  }
+
+  getDefinitions(): LocalToolDefinition[] {
+    return [
+      {
+        type: 'function',
+        name: 'read_file',
+        description: 'Read a UTF-8 text file from the workspace. Large files are truncated.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'File path relative to the workspace root' }
+          },
+          required: ['path']
+        },
+        strict: false
+      },
+      {
+        type: 'function',
+        name: 'list_directory',
+        description: 'List the entries of a workspace directory. Directories are suffixed with "/".',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Directory path relative to the workspace root (default ".")' }
+          }
+        },
+        strict: false
+      },
+      {
+        type: 'function',
+        name: 'grep',
+        description: 'Search workspace files for a regular expression. Returns path:line: text matches.',
+        parameters: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string', description: `JavaScript regular expression (at most ${MAX_GREP_PATTERN_LENGTH} characters)` },
+            path: { type: 'string', description: 'File or directory to search, relative to the workspace root (default ".")' }
+          },
+          required: ['pattern']
+        },
+        strict: false
+      }
+    ];
+  }
+
+  /**
+   * Run a tool call. Failures are returned as text so the model can recover
+   * instead of aborting the whole loop.
+   */
+  async execute(name: string, rawArguments: string): Promise<string> {
+    try {
+      const args = rawArguments ? JSON.parse(rawArguments) : {};
+      switch (name) {
+        case 'read_file':
+          return await this.readFile(args.path);
+        case 'list_directory':
+          return await this.listDirectory(args.path || '.');
+        case 'grep':
+          return await this.grep(args.pattern, args.path || '.');
+        default:
+          return `Error: unknown tool ${name}`;
+      }
+    } catch (error: any) {
+      return `Error: ${error.message || String(error)}`;
+    }
+  }
+
+  private async resolvePath(relativePath: string): Promise<string> {
+    if (typeof relativePath !== 'string' || !relativePath) {
+      throw new Error('path is required');
+    }
+    const resolved = path.resolve(this.root, relativePath);
+    const real = await fs.realpath(resolved);
+    const realRoot = await fs.realpath(this.root);
+    if (real !== realRoot && !real.startsWith(realRoot + path.sep)) {
+      throw new Error(`path is outside the workspace: ${relativePath}`);
+    }
+    return real;
+  }
+
+  private async readFile(relativePath: string): Promise<string> {
+    const file = await this.resolvePath(relativePath);
+    const handle = await fs.open(file, 'r');
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(size, this.maxReadBytes);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, 0);
+      const text = buffer.toString('utf-8');
+      return size > length ? `${text}\n[... truncated at ${length} of ${size} bytes ...]` : text;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async listDirectory(relativePath: string): Promise<string> {
+    const dir = await this.resolvePath(relativePath);
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .map(entry => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+      .sort()
+      .join('\n');
+  }
+
+  private async grep(pattern: string, relativePath: string): Promise<string> {
+    if (typeof pattern !== 'string' || !pattern) {
+      throw new Error('pattern is required');
+    }
+    if (pattern.length > MAX_GREP_PATTERN_LENGTH) {
+      throw new Error(`pattern is longer than ${MAX_GREP_PATTERN_LENGTH} characters`);
+    }
+    // Compiling is cheap and reports syntax errors here; matching runs in the worker
+    new RegExp(pattern);
+    const start = await this.resolvePath(relativePath);
+    const realRoot = await fs.realpath(this.root);
+    const matches: string[] = [];
+    const matcher = new LineMatcher(pattern, this.grepTimeoutMs);
+
+    const visit = async (target: string): Promise<void> => {
+      if (matches.length >= this.maxGrepResults) return;
+      const stat = await fs.stat(target);
+      if (stat.isDirectory()) {
+        for (const entry of await fs.readdir(target, { withFileTypes: true })) {
+          if (entry.isSymbolicLink() || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+          await visit(path.join(target, entry.name));
+        }
+        return;
+      }
+      // Skip large files; they are usually generated or binary
+      if (!stat.isFile() || stat.size > this.maxReadBytes * 4) return;
+      const lines = (await fs.readFile(target, 'utf-8'))
+        .split('\n')
+        .map(line => line.slice(0, MAX_GREP_LINE_LENGTH));
+      const hits = await matcher.match(lines, this.maxGrepResults - matches.length);
+      for (const i of hits) {
+        matches.push(`${path.relative(realRoot, target)}:${i + 1}: ${lines[i].slice(0, 300)}`);
+      }
+    };
+
+    try {
+      await visit(start);
+    } finally {
+      await matcher.close();
+    }
+    if (matches.length === 0) return 'No matches';
+    return matches.length >= this.maxGrepResults
+      ? `${matches.join('\n')}\n[... results capped at ${this.maxGrepResults} ...]`
+      : matches.join('\n');
+  }
+}
+
+/**
+ * One worker per grep call, fed a file at a time. The deadline covers the
+ * whole search; once it passes the worker is terminated mid-match.
+ */
+class LineMatcher {
+  private worker: Worker;
+  private timeoutMs: number;
+  private deadline: number;
+
+  constructor(pattern: string, timeoutMs: number) {
+    this.worker = new Worker(MATCHER_SOURCE, { eval: true, workerData: { pattern } });
+    this.timeoutMs = timeoutMs;
+    this.deadline = Date.now() + timeoutMs;
+  }
+
+  match(lines: string[], limit: number): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`grep timed out after ${this.timeoutMs}ms; try a simpler pattern or a narrower path`));
+      }, Math.max(0, this.deadline - Date.now()));
+      const onMessage = (hits: number[]) => {
+        cleanup();
+        resolve(hits);
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.worker.off('message', onMessage);
+        this.worker.off('error', onError);
+      };
+      this.worker.on('message', onMessage);
+      this.worker.on('error', onError);
+      this.worker.postMessage({ lines, limit });
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
@@ -1,106 +1,381 @@
-import OpenAI from 'openai';
-import { TokenUsage, GPT5Response, ReasoningEffort } from './types.js';
-
-// Pricing per 1K tokens (official OpenAI Standard tier rates)
-const PRICING: Record<string, { input: number; output: number; cached?: number; reasoning?: number }> = {
-  'gpt-5': {
-    input: 0.00125,
-    output: 0.01,
-    cached: 0.000125,
-    reasoning: 0.01
-  },
-  'gpt-4o': { input: 0.0025, output: 0.01 },
-  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
-  'gpt-4-turbo-preview': { input: 0.01, output: 0.03 },
-  'gpt-4-turbo': { input: 0.01, output: 0.03 },
-  'gpt-4': { input: 0.03, output: 0.06 },
-  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 }
-};
+import { setTimeout as sleep } from 'timers/promises';
+import { TokenUsage, GPT5Response, ReasoningEffort, Verbosity, ModelPricing, CreateResponseParams, FunctionToolCall, FallbackPolicy, FallbackInfo, BackgroundResponse, BackgroundResponseStatus, BatchItemResult, BatchState } from './types.js';
+import { countTokens } from './tokenizer.js';
+import { LLMProvider, ProviderRequestOptions } from './providers.js';
+import { calculateUsageCost, PricingKind, toBatchPricing } from './pricing.js';
+import { allowsFallback, classifyError } from './fallback.js';
+import { CircuitOpenError, RequestCancelledError, RequestTimeoutError } from './errors.js';
+import { CircuitBreakerRegistry, CircuitStatus } from './circuit-breaker.js';
+import { toChatContent, toResponsesContent } from './attachments.js';
+import { RateLimiter, RateLimitStatus } from './rate-limiter.js';
 
 export class GPT5Client {
-  private client: OpenAI;
+  private provider: LLMProvider;
   private defaultTemperature: number;
   private defaultReasoningEffort: ReasoningEffort;
+  private defaultVerbosity?: Verbosity;
+  private fallbackPolicy: FallbackPolicy;
+  private circuitBreaker: CircuitBreakerRegistry;
+  private rateLimiter: RateLimiter;
   // maxTokensDefault removed - using dynamic budget-aware limits
 
   constructor(
-    apiKey: string,
+    provider: LLMProvider,
     defaultTemperature = 0.7,
-    defaultReasoningEffort: ReasoningEffort = 'high'
+    defaultReasoningEffort: ReasoningEffort = 'high',
+    defaultVerbosity?: Verbosity,
+    fallbackPolicy: FallbackPolicy = 'transient',
+    circuitBreaker: CircuitBreakerRegistry = new CircuitBreakerRegistry(),
+    rateLimiter: RateLimiter = new RateLimiter()
     // maxTokensDefault parameter removed
   ) {
-    this.client = new OpenAI({ apiKey });
+    this.provider = provider;
     this.defaultTemperature = defaultTemperature;
     this.defaultReasoningEffort = defaultReasoningEffort;
+    this.defaultVerbosity = defaultVerbosity;
+    this.fallbackPolicy = fallbackPolicy;
+    this.circuitBreaker = circuitBreaker;
+    this.rateLimiter = rateLimiter;
     // maxTokensDefault assignment removed
   }
 
-  async createResponse(params: {
-    input: string | any[];
-    instructions?: string;
-    temperature?: number;
-    reasoning?: { effort: ReasoningEffort };
-    maxTokens?: number;
-    stream?: boolean;
-  }): Promise<GPT5Response> {
+  async createResponse(params: CreateResponseParams): Promise<GPT5Response> {
+    if (params.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    // Endpoints without the Responses API (most local servers) only speak chat completions
+    if (!this.provider.supportsResponsesApi) {
+      return this.fallbackToChatCompletions(params);
+    }
+
     // Always try Responses API first, with robust mapping and retry
-    const requestParams: any = { model: this.getResponsesModel() };
+    const requestParams = this.buildResponsesRequest(params);
+    const model = requestParams.model;
+    const circuit = this.circuitBreaker.check(model, 'responses');
+    if (!circuit.allowed) {
+      // Known-bad model: skip the retry/backoff chain and fail fast or go straight to a fallback
+      if (params.previousResponseId || !allowsFallback(this.fallbackPolicy, circuit.kind)) {
+        throw new CircuitOpenError(circuit.reason);
+      }
+      console.warn(`Skipping ${model}: ${circuit.reason}`);
+      return this.fallbackToChatCompletions(params, { from: model, kind: circuit.kind, reason: circuit.reason });
+    }
+
+    try {
+      const response = params.stream
+        ? await this.streamResponsesApi(params, requestParams)
+        : await this.createResponsesApi(requestParams, params.signal, this.estimateUsage(params, '').inputTokens);
+      this.circuitBreaker.recordSuccess(model, 'responses');
+      return response;
+    } catch (error: any) {
+      // Cancellation stops everything, fallbacks included
+      if (error instanceof RequestCancelledError) {
+        this.circuitBreaker.release(model, 'responses');
+        throw error.usage ? error : this.createAbortError(params, '', model, 'responses');
+      }
+      const { kind, reason } = classifyError(error);
+      // Caller errors and rejected previous_response_ids say nothing about the model's health
+      if (kind === 'fatal' || (params.previousResponseId && kind !== 'transient')) {
+        this.circuitBreaker.release(model, 'responses');
+      } else {
+        this.circuitBreaker.recordFailure(model, 'responses', kind, reason);
+      }
+      // Chat completions cannot see server-side state, so answering there would silently drop
+      // the conversation; let the caller replay history instead
+      if (params.previousResponseId) {
+        throw error;
+      }
+      // Only fall back when another model could plausibly succeed and the policy allows it
+      if (kind === 'fatal' || !allowsFallback(this.fallbackPolicy, kind)) {
+        throw error;
+      }
+      console.warn(`Responses API request to ${model} failed (${kind}: ${reason}); falling back to chat completions`);
+      return this.fallbackToChatCompletions(params, { from: model, kind, reason });
+    }
+  }
+
+  /**
+   * Whether requests can run detached on the server (Responses API background mode).
+   */
+  supportsBackground(): boolean {
+    return this.provider.supportsResponsesApi;
+  }
+
+  /**
+   * Queue a request with background: true and return its response id without waiting for
+   * the answer; poll it with getBackgroundResponse. There is no fallback: a job that cannot
+   * be queued is for the caller to run some other way.
+   */
+  async startBackgroundResponse(params: CreateResponseParams): Promise<string> {
+    const requestParams = { ...this.buildResponsesRequest(params), background: true, store: true };
+    const model = requestParams.model;
+    const circuit = this.circuitBreaker.check(model, 'responses');
+    if (!circuit.allowed) {
+      throw new CircuitOpenError(circuit.reason);
+    }
+
+    try {
+      const response = await this.requestWithRetry((attemptSignal) => this.provider.createResponse(requestParams, this.requestOptions(attemptSignal)), params.signal, this.estimateUsage(params, '').inputTokens);
+      this.circuitBreaker.recordSuccess(model, 'responses');
+      return response.id;
+    } catch (error: any) {
+      const { kind, reason } = classifyError(error);
+      if (kind === 'fatal' || error instanceof RequestCancelledError) {
+        this.circuitBreaker.release(model, 'responses');
+      } else {
+        this.circuitBreaker.recordFailure(model, 'responses', kind, reason);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Poll a background response. `response` is set once the server has billed it
+   * (completed, incomplete, or cancelled after it started).
+   */
+  async getBackgroundResponse(responseId: string, signal?: AbortSignal): Promise<BackgroundResponse> {
+    const raw = await this.requestWithRetry((attemptSignal) => this.provider.retrieveResponse(responseId, { signal: attemptSignal }), signal);
+    const status: BackgroundResponseStatus = raw.status || 'completed';
+    return {
+      status,
+      response: raw.usage ? this.toGPT5Response(raw, raw.model || this.getResponsesModel()) : undefined,
+      error: status === 'failed' ? (raw.error?.message || 'Background response failed') : undefined
+    };
+  }
+
+  /**
+   * Cancel a queued or running background response and return its final state.
+   */
+  async cancelBackgroundResponse(responseId: string): Promise<BackgroundResponse> {
+    await this.requestWithRetry((attemptSignal) => this.provider.cancelResponse(responseId, { signal: attemptSignal }));
+    return this.getBackgroundResponse(responseId);
+  }
+
+  /**
+   * Whether the provider takes Batch API jobs for the Responses endpoint.
+   */
+  supportsBatch(): boolean {
+    return this.provider.supportsResponsesApi;
+  }
+
+  /**
+   * Start a Batch API job with one Responses request per item; returns the batch id.
+   * Never retried: after a timeout or 5xx the batch may already exist, and a retry would
+   * start (and bill) a second one.
+   */
+  async createBatch(items: { customId: string; params: CreateResponseParams }[]): Promise<string> {
+    const requests = items.map(item => {
+      const body = this.buildResponsesRequest(item.params);
+      if (item.params.maxTokens) body.max_output_tokens = item.params.maxTokens;
+      return { custom_id: item.customId, method: 'POST', url: '/v1/responses', body };
+    });
+    const batch = await this.requestWithRetry((attemptSignal) => this.provider.createBatch(requests, '/v1/responses', { signal: attemptSignal }), undefined, 0, 0);
+    return batch.id;
+  }
+
+  /**
+   * Poll a batch. Once it has ended (completed, expired or cancelled, which can all leave
+   * partial output) the output and error files are read and each line priced at batch rates.
+   */
+  async getBatch(batchId: string): Promise<BatchState> {
+    const batch = await this.requestWithRetry((attemptSignal) => this.provider.retrieveBatch(batchId, { signal: attemptSignal }));
+    const state: BatchState = {
+      id: batch.id,
+      status: batch.status,
+      requestCounts: {
+        total: batch.request_counts?.total || 0,
+        completed: batch.request_counts?.completed || 0,
+        failed: batch.request_counts?.failed || 0
+      },
+      error: batch.errors?.data?.map((e: any) => e.message).join('; ') || undefined
+    };
+    if (!['completed', 'expired', 'cancelled'].includes(batch.status)) {
+      return state;
+    }
+
+    const results: BatchItemResult[] = [];
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (!fileId) continue;
+      const content = await this.requestWithRetry((attemptSignal) => this.provider.downloadFile(fileId, { signal: attemptSignal }));
+      for (const line of content.split('\n')) {
+        if (line.trim()) results.push(this.parseBatchLine(line));
+      }
+    }
+    state.results = results;
+    return state;
+  }
+
+  /**
+   * Batch API rates for the primary model, used for pre-flight estimates.
+   */
+  getBatchPricing(): ModelPricing {
+    return toBatchPricing(this.getResponsesPricing());
+  }
+
+  // One unreadable line fails its own item, not the whole batch
+  private parseBatchLine(text: string): BatchItemResult {
+    let line: any;
+    try {
+      line = JSON.parse(text);
+    } catch (error: any) {
+      const customId = text.match(/"custom_id"\s*:\s*"((?:[^"\\]|\\.)*)"/)?.[1];
+      return { customId: customId ?? '', error: `Unreadable result line: ${error.message}` };
+    }
+    const body = line.response?.body;
+    const pricing = toBatchPricing(this.provider.getPricing(body?.model || this.getResponsesModel(), 'responses'));
+    const usage = body?.usage ? this.buildUsage(body.usage, pricing, false) : undefined;
+    if (line.error || !body || line.response.status_code >= 400) {
+      const message = line.error?.message || body?.error?.message || `HTTP ${line.response?.status_code}`;
+      return { customId: line.custom_id, error: message, usage };
+    }
+    return { customId: line.custom_id, text: body.output_text || this.extractTextFromOutput(body.output), model: body.model, usage };
+  }
+
+  /**
+   * Map CreateResponseParams onto a Responses API request body.
+   */
+  private buildResponsesRequest(params: CreateResponseParams): any {
+    const requestParams: any = { model: params.model || this.getResponsesModel() };
     
     // Map input to Responses API format
     if (typeof params.input === 'string') {
       requestParams.input = params.input;
     } else if (Array.isArray(params.input)) {
-      // Expect array of { role, content: string }
+      // Expect array of { role, content: string }; typed items (function calls and their
+      // outputs, reasoning, prior output messages) are already in Responses format
       requestParams.input = params.input
-        .filter((m: any) => m && m.role && typeof m.content === 'string')
-        .map((m: any) => ({
+        .filter((m: any) => m && (m.type || (m.role && typeof m.content === 'string')))
+        .map((m: any) => m.type ? m : ({
           role: m.role,
           content: [{ type: 'input_text', text: m.content }]
         }));
     }
 
+    if (params.attachments && params.attachments.length > 0) {
+      requestParams.input = this.attachToLastUserMessage(
+        typeof requestParams.input === 'string'
+          ? [{ role: 'user', content: [{ type: 'input_text', text: requestParams.input }] }]
+          : requestParams.input,
+        params.attachments.map(toResponsesContent)
+      );
+    }
+
     if (params.instructions) {
       requestParams.instructions = params.instructions;
     }
 
     requestParams.reasoning = params.reasoning || { effort: this.defaultReasoningEffort };
 
-    try {
-      if (params.stream) {
-        // Streamed responses aggregation
-        const stream = await this.requestWithRetry(async () => (this.client as any).responses.stream(requestParams));
-        let text = '';
-        await new Promise<void>((resolve, reject) => {
-          stream.on('text', (delta: string) => { text += delta; });
-          stream.on('end', resolve);
-          stream.on('error', reject);
-        });
-        const fakeUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
-        return { text, usage: this.extractUsage({ usage: fakeUsage }), raw: { streamed: true } };
+    if (params.previousResponseId) {
+      requestParams.previous_response_id = params.previousResponseId;
+    }
+
+    if (params.tools && params.tools.length > 0) {
+      requestParams.tools = params.tools;
+    }
+
+    if (params.responseFormat) {
+      requestParams.text = {
+        format: {
+          type: 'json_schema',
+          name: params.responseFormat.name,
+          schema: params.responseFormat.schema,
+          strict: params.responseFormat.strict ?? false
+        }
+      };
+    }
+
+    // Only sent when asked for: models other than GPT-5 reject the setting
+    const verbosity = params.verbosity || this.defaultVerbosity;
+    if (verbosity) {
+      requestParams.text = { ...requestParams.text, verbosity };
+    }
+
+    return requestParams;
+  }
+
+  private async createResponsesApi(requestParams: any, signal: AbortSignal | undefined, estimatedTokens: number): Promise<GPT5Response> {
+    const response = await this.requestWithRetry((attemptSignal) => this.provider.createResponse(requestParams, this.requestOptions(attemptSignal)), signal, estimatedTokens);
+    return this.toGPT5Response(response, requestParams.model);
+  }
+
+  private toGPT5Response(response: any, requestedModel: string): GPT5Response {
+    return {
+      text: response.output_text || this.extractTextFromOutput(response.output),
+      usage: this.extractUsage(response, requestedModel),
+      raw: response,
+      responseId: response.id,
+      model: response.model || requestedModel,
+      toolCalls: this.extractToolCalls(response.output),
+      ...(response.status === 'incomplete' ? { incomplete: true } : {})
+    };
+  }
+
+  private async streamResponsesApi(params: CreateResponseParams, requestParams: any): Promise<GPT5Response> {
+    // Streamed responses: aggregate the text and forward deltas/phase changes as they arrive
+    const onProgress = params.onProgress;
+    // One signal spans the whole stream, so the timeout covers reading it and not just opening it
+    const streamSignal = this.createRequestSignal(params.signal, true);
+    const stream = await this.requestWithRetry(async () => this.provider.streamResponse(requestParams, { signal: streamSignal }), params.signal, this.estimateUsage(params, '').inputTokens);
+    let text = '';
+    let finalResponse: any = null;
+    stream.on('response.created', () => {
+      onProgress?.({ type: 'status', text: `Request accepted by ${requestParams.model}` });
+    });
+    stream.on('response.output_item.added', (event: any) => {
+      if (event.item?.type === 'reasoning') {
+        onProgress?.({ type: 'status', text: 'Reasoning...' });
+      } else if (event.item?.type === 'message') {
+        onProgress?.({ type: 'status', text: 'Writing response...' });
       }
-      const response = await this.requestWithRetry(async () => (this.client as any).responses.create(requestParams));
+    });
+    stream.on('response.reasoning_summary_text.delta', (event: any) => {
+      if (event.delta) onProgress?.({ type: 'reasoning', text: event.delta });
+    });
+    stream.on('response.output_text.delta', (event: any) => {
+      if (!event.delta) return;
+      text += event.delta;
+      onProgress?.({ type: 'text_delta', text: event.delta });
+    });
+    // The terminal event carries the same usage block as a non-streamed response
+    stream.on('response.completed', (event: any) => { finalResponse = event.response; });
+    stream.on('response.incomplete', (event: any) => { finalResponse = event.response; });
+    // done() rejects on 'abort' and 'error'; without a handler the SDK's APIUserAbortError is an
+    // unhandled rejection that takes the whole server down
+    try {
+      await stream.done();
+    } catch (error) {
+      if (streamSignal.aborted) throw this.createAbortError(params, text, requestParams.model, 'responses');
+      throw error;
+    }
+    if (finalResponse?.usage) {
       return {
-        text: response.output_text || this.extractTextFromOutput(response.output),
-        usage: this.extractUsage(response),
-        raw: response
+        text,
+        usage: this.extractUsage(finalResponse, requestParams.model),
+        raw: { streamed: true, id: finalResponse.id },
+        responseId: finalResponse.id,
+        model: finalResponse.model || requestParams.model,
+        ...(finalResponse.status === 'incomplete' ? { incomplete: true } : {})
       };
-    } catch (error: any) {
-      // Fallback broadly to chat completions on any failure
-      return this.fallbackToChatCompletions(params);
     }
+    const estimate = this.estimateUsage(params, text, requestParams.model);
+    return {
+      text,
+      usage: this.extractUsage({ usage: { input_tokens: estimate.inputTokens, output_tokens: estimate.outputTokens, total_tokens: estimate.inputTokens + estimate.outputTokens } }, requestParams.model, true),
+      raw: { streamed: true },
+      responseId: finalResponse?.id,
+      model: finalResponse?.model || requestParams.model,
+      // Without a terminal event there is no telling whether the text is complete
+      ...(finalResponse?.status !== 'completed' ? { incomplete: true } : {})
+    };
   }
 
-  private async fallbackToChatCompletions(params: {
-    input: string | any[];
-    instructions?: string;
-    temperature?: number;
-    reasoning?: { effort: ReasoningEffort };
-    maxTokens?: number;
-    stream?: boolean;
-  }): Promise<GPT5Response> {
-    console.warn('Falling back to chat completions API (responses API not available)');
-    
-    const messages: any[] = [];
+  private async fallbackToChatCompletions(
+    params: CreateResponseParams,
+    cause?: Omit<FallbackInfo, 'to'>
+  ): Promise<GPT5Response> {
+    let messages: any[] = [];
     
     // Add system message if instructions provided
     if (params.instructions) {
@@ -131,72 +406,156 @@ export class GPT5Client {
       }
     }
 
+    if (params.attachments && params.attachments.length > 0) {
+      const images = params.attachments.map(toChatContent).filter(part => part !== undefined);
+      const dropped = params.attachments.filter(attachment => toChatContent(attachment) === undefined);
+      const parts: any[] = [...images];
+      if (dropped.length > 0) {
+        console.warn(`Chat completions cannot take file attachments; leaving out ${dropped.map(a => a.name).join(', ')}`);
+        parts.push({ type: 'text', text: `[Attachments left out because this model only accepts images: ${dropped.map(a => `${a.name} (${a.mimeType})`).join(', ')}]` });
+      }
+      messages = this.attachToLastUserMessage(
+        messages.map(m => m.role === 'user' && typeof m.content === 'string' ? { ...m, content: [{ type: 'text', text: m.content }] } : m),
+        parts
+      );
+    }
+
+    const responseFormat = params.responseFormat
+      ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: params.responseFormat.name,
+              schema: params.responseFormat.schema,
+              strict: params.responseFormat.strict ?? false
+            }
+          }
+        }
+      : {};
+
     // Use the most capable and cost-effective models available
     const models = this.getFallbackModels();
+    const estimatedTokens = this.estimateUsage(params, '').inputTokens;
     let response: any;
     let modelUsed = 'gpt-4o';
+    let chatCause: Omit<FallbackInfo, 'to'> | undefined;
+    let lastError: any;
+    const fallbackTo = (model: string): FallbackInfo | undefined => {
+      const origin = cause || chatCause;
+      return origin ? { ...origin, to: model } : undefined;
+    };
 
     for (const model of models) {
+      if (params.signal?.aborted) {
+        throw this.createAbortError(params, '', model, 'chat');
+      }
+      const circuit = this.circuitBreaker.check(model, 'chat');
+      if (!circuit.allowed) {
+        // An open circuit counts as this model failing, without paying to find out again
+        if (!allowsFallback(this.fallbackPolicy, circuit.kind)) {
+          throw new CircuitOpenError(circuit.reason);
+        }
+        chatCause = chatCause || { from: model, kind: circuit.kind, reason: circuit.reason };
+        lastError = new CircuitOpenError(circuit.reason);
+        continue;
+      }
       try {
         if (params.stream) {
-          const stream = await this.requestWithRetry(async () => this.client.chat.completions.create({
+          const streamSignal = this.createRequestSignal(params.signal, true);
+          const stream = await this.requestWithRetry(async () => this.provider.createChatCompletion({
             model,
             messages,
             temperature: params.temperature ?? this.defaultTemperature,
             max_tokens: params.maxTokens ?? 4000,
-            stream: true
-          } as any));
+            ...responseFormat,
+            stream: true,
+            stream_options: { include_usage: true }
+          } as any, this.requestOptions(streamSignal)), params.signal, estimatedTokens);
           let text = '';
+          let streamUsage: any = null;
+          let finishReason: string | undefined;
+          const fallback = fallbackTo(model);
+          params.onProgress?.({ type: 'status', text: fallback ? `Falling back to ${model}: ${fallback.reason}` : `Answering with ${model}` });
           // @ts-ignore: stream is an async iterator in newer SDKs; fallback to events if available
           if (typeof (stream as any)[Symbol.asyncIterator] === 'function') {
-            for await (const chunk of stream as any) {
-              const content = chunk.choices?.[0]?.delta?.content;
-              if (content) text += content;
+            try {
+              for await (const chunk of stream as any) {
+                // With include_usage the last chunk has no choices and carries the usage totals
+                if (chunk.usage) streamUsage = chunk.usage;
+                finishReason = chunk.choices?.[0]?.finish_reason || finishReason;
+                const content = chunk.choices?.[0]?.delta?.content;
+                if (content) {
+                  text += content;
+                  params.onProgress?.({ type: 'text_delta', text: content });
+                }
+              }
+            } catch (error) {
+              if (streamSignal.aborted) throw this.createAbortError(params, text, model, 'chat');
+              throw error;
             }
           }
+          const estimated = !streamUsage;
+          if (estimated) {
+            const estimate = this.estimateUsage(params, text, model);
+            streamUsage = {
+              prompt_tokens: estimate.inputTokens,
+              completion_tokens: estimate.outputTokens,
+              total_tokens: estimate.inputTokens + estimate.outputTokens
+            };
+          }
+          this.circuitBreaker.recordSuccess(model, 'chat');
           return {
             text,
-            usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0 },
-            raw: { streamed: true, model }
+            usage: this.extractChatUsage(model, streamUsage, estimated),
+            raw: { streamed: true, model },
+            model,
+            fallback,
+            ...(finishReason === 'length' ? { incomplete: true } : {})
           } as GPT5Response;
         } else {
-          response = await this.requestWithRetry(async () => this.client.chat.completions.create({
+          response = await this.requestWithRetry((signal) => this.provider.createChatCompletion({
             model,
             messages,
             temperature: params.temperature ?? this.defaultTemperature,
-            max_tokens: params.maxTokens ?? 4000 // Fallback default for GPT-4 only
-          }));
+            max_tokens: params.maxTokens ?? 4000, // Fallback default for GPT-4 only
+            ...responseFormat
+          }, this.requestOptions(signal)), params.signal, estimatedTokens);
         }
+        this.circuitBreaker.recordSuccess(model, 'chat');
         modelUsed = model;
         break;
       } catch (error: any) {
-        if (!error.message?.includes('model')) {
-          // For non-model errors, try next model only if rate-limit/server error; otherwise rethrow
-          if (error.status === 429 || (error.status && error.status >= 500)) {
-            continue;
-          }
+        if (error instanceof RequestCancelledError) {
+          this.circuitBreaker.release(model, 'chat');
+          throw error.usage ? error : this.createAbortError(params, '', model, 'chat');
+        }
+        // Moving on to the next chat model is itself a fallback and follows the same policy
+        const { kind, reason } = classifyError(error);
+        if (kind === 'fatal') {
+          this.circuitBreaker.release(model, 'chat');
+        } else {
+          this.circuitBreaker.recordFailure(model, 'chat', kind, reason);
+        }
+        if (kind === 'fatal' || !allowsFallback(this.fallbackPolicy, kind)) {
           throw error;
         }
-        // Try next model
+        console.warn(`Chat completions request to ${model} failed (${kind}: ${reason}); trying the next model`);
+        chatCause = chatCause || { from: model, kind, reason };
+        lastError = error;
       }
     }
 
     if (!response) {
-      throw new Error('No compatible model available');
+      throw new Error(`No compatible model available${lastError ? `: ${lastError.message}` : ''}`);
     }
 
-    const usage = response.usage || {};
-    const estimatedCost = this.calculateCostForModel(modelUsed, usage);
-
     return {
       text: response.choices[0]?.message?.content || '',
-      usage: {
-        inputTokens: usage.prompt_tokens || 0,
-        outputTokens: usage.completion_tokens || 0,
-        totalTokens: usage.total_tokens || 0,
-        estimatedCost
-      },
-      raw: response
+      usage: this.extractChatUsage(modelUsed, response.usage || {}),
+      raw: response,
+      model: modelUsed,
+      fallback: fallbackTo(modelUsed),
+      ...(response.choices[0]?.finish_reason === 'length' ? { incomplete: true } : {})
     };
   }
 
@@ -221,45 +580,104 @@ export class GPT5Client {
     return '';
   }
 
-  private extractUsage(response: any): TokenUsage {
-    const usage = response.usage || {};
-    
-    return {
+  private extractToolCalls(output: any): FunctionToolCall[] {
+    if (!Array.isArray(output)) return [];
+    return output
+      .filter((item: any) => item?.type === 'function_call')
+      .map((item: any) => ({ callId: item.call_id, name: item.name, arguments: item.arguments || '' }));
+  }
+
+  private extractUsage(response: any, model: string, estimated = false): TokenUsage {
+    return this.buildUsage(response.usage || {}, this.getResponsesPricing(model), estimated);
+  }
+
+  private extractChatUsage(model: string, usage: any, estimated = false): TokenUsage {
+    return this.buildUsage(usage, this.provider.getPricing(model, 'chat'), estimated);
+  }
+
+  private buildUsage(usage: any, pricing: ModelPricing, estimated: boolean): TokenUsage {
+    // Responses API and chat completions name the same counters differently
+    const tokens = {
       inputTokens: usage.prompt_tokens || usage.input_tokens || 0,
       outputTokens: usage.completion_tokens || usage.output_tokens || 0,
-      reasoningTokens: usage.reasoning_tokens || 0,
+      cachedInputTokens: usage.input_tokens_details?.cached_tokens || usage.prompt_tokens_details?.cached_tokens || 0,
+      reasoningTokens: usage.output_tokens_details?.reasoning_tokens || usage.completion_tokens_details?.reasoning_tokens || usage.reasoning_tokens || 0
+    };
+    const { cost, cacheSavings } = calculateUsageCost(pricing, tokens);
+
+    return {
+      ...tokens,
       totalTokens: usage.total_tokens || 0,
-      estimatedCost: this.calculateCost(usage)
+      estimatedCost: cost,
+      cacheSavings,
+      ...(estimated ? { estimated: true } : {})
     };
   }
 
-  private calculateCost(usage: any): number {
-    const model = this.getResponsesModel();
-    const pricing = PRICING[model] || PRICING['gpt-5'];
-    const inputCost = ((usage.prompt_tokens || usage.input_tokens || 0) * pricing.input) / 1000;
-    const outputCost = ((usage.completion_tokens || usage.output_tokens || 0) * pricing.output) / 1000;
-    const reasoningRate = pricing.reasoning ?? pricing.output;
-    const reasoningCost = ((usage.reasoning_tokens || 0) * reasoningRate) / 1000;
-    
-    return Number((inputCost + outputCost + reasoningCost).toFixed(4));
-  }
-
-  private calculateCostForModel(model: string, usage: any): number {
-    // Fallback pricing for GPT-4 models (official OpenAI Standard tier rates per 1K tokens)
-    const fallbackPricing: Record<string, { input: number; output: number }> = {
-      'gpt-4o': { input: 0.0025, output: 0.01 },           // $2.50/$10.00 per 1M
-      'gpt-4o-mini': { input: 0.00015, output: 0.0006 },   // $0.15/$0.60 per 1M
-      'gpt-4-turbo-preview': { input: 0.01, output: 0.03 }, // $10.00/$30.00 per 1M
-      'gpt-4-turbo': { input: 0.01, output: 0.03 },        // $10.00/$30.00 per 1M
-      'gpt-4': { input: 0.03, output: 0.06 },              // $30.00/$60.00 per 1M (legacy)
-      'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 }   // $0.50/$1.50 per 1M (legacy)
+  /**
+   * Append content parts to the most recent user message, adding one if there is none.
+   */
+  private attachToLastUserMessage(messages: any[], parts: any[]): any[] {
+    const index = messages.map(m => m?.role).lastIndexOf('user');
+    if (index === -1) {
+      return [...messages, { role: 'user', content: parts }];
+    }
+    const target = messages[index];
+    return messages.map((m, i) => i === index ? { ...target, content: [...target.content, ...parts] } : m);
+  }
+
+  private estimateUsage(params: Pick<CreateResponseParams, 'input' | 'instructions' | 'attachments'>, outputText: string, model = this.getResponsesModel()): { inputTokens: number; outputTokens: number } {
+    // Reasoning tokens are invisible to a local tokenizer, so this is a lower bound for GPT-5
+    const parts: string[] = [];
+    if (params.instructions) parts.push(params.instructions);
+    if (typeof params.input === 'string') {
+      parts.push(params.input);
+    } else if (Array.isArray(params.input)) {
+      for (const msg of params.input) {
+        if (typeof msg?.content === 'string') parts.push(msg.content);
+      }
+    }
+    const attachmentTokens = (params.attachments || []).reduce((sum, attachment) => sum + attachment.estimatedTokens, 0);
+    return {
+      inputTokens: countTokens(parts.join('\n'), model) + attachmentTokens,
+      outputTokens: countTokens(outputText, model)
     };
+  }
 
-    const pricing = fallbackPricing[model] || fallbackPricing['gpt-4'];
-    const inputCost = ((usage.prompt_tokens || 0) * pricing.input) / 1000;
-    const outputCost = ((usage.completion_tokens || 0) * pricing.output) / 1000;
-    
-    return Number((inputCost + outputCost).toFixed(4));
+  /**
+   * Whether conversations can be chained server-side with previous_response_id.
+   */
+  supportsServerState(): boolean {
+    return this.provider.supportsResponsesApi;
+  }
+
+  /**
+   * Health of every model/endpoint the client has called, for diagnostics.
+   */
+  getCircuitStatus(): CircuitStatus[] {
+    return this.circuitBreaker.getStatus();
+  }
+
+  /**
+   * Client-side rate limiter state (queue depth, waits, server-imposed pauses), for diagnostics.
+   */
+  getRateLimitStatus(): RateLimitStatus {
+    return this.rateLimiter.getStatus();
+  }
+
+  /**
+   * The primary (Responses API) model requests are sent to.
+   */
+  getModelName(): string {
+    return this.getResponsesModel();
+  }
+
+  /**
+   * Responses API rates for `model` (the primary model by default), used for pre-flight
+   * estimates and budgeting.
+   */
+  getResponsesPricing(model = this.getResponsesModel()): ModelPricing {
+    return this.provider.getPricing(model, 'responses');
   }
 
   async testConnection(): Promise<boolean> {
@@ -283,28 +701,75 @@ export class GPT5Client {
   private getFallbackModels(): string[] {
     const envList = process.env.OPENAI_FALLBACK_MODELS;
     if (envList) return envList.split(',').map(s => s.trim()).filter(Boolean);
-    return ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo-preview', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'];
+    return this.provider.getDefaultChatModels();
   }
 
-  private async requestWithRetry<T>(fn: () => Promise<T>, retries = parseInt(process.env.OPENAI_RETRY_COUNT || '3'), baseDelayMs = parseInt(process.env.OPENAI_RETRY_BASE_DELAY_MS || '300')): Promise<T> {
+  /**
+   * Run `fn` with retries on 429 and 5xx. Each attempt first waits its turn in the rate
+   * limiter: model requests are charged their estimated prompt tokens, and polls, cancels
+   * and downloads a request slot only.
+   */
+  private async requestWithRetry<T>(fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal, estimatedTokens?: number, retries = parseInt(process.env.OPENAI_RETRY_COUNT || '3'), baseDelayMs = parseInt(process.env.OPENAI_RETRY_BASE_DELAY_MS || '300')): Promise<T> {
     let attempt = 0;
-    const timeoutMs = parseInt(process.env.OPENAI_TIMEOUT_MS || '30000');
     while (true) {
+      if (signal?.aborted) throw new RequestCancelledError();
+      if (!this.rateLimiter.tryAcquire(estimatedTokens ?? 0)) {
+        // Only the caller's signal can reject a queued request
+        await this.rateLimiter.acquire(estimatedTokens ?? 0, signal).catch(() => { throw new RequestCancelledError(); });
+      }
+      // Each attempt gets its own timeout; the caller's signal aborts all of them
+      const attemptSignal = this.createRequestSignal(signal);
       try {
-        const controller = new AbortController();
-        const id = setTimeout(() => controller.abort(), timeoutMs);
-        // @ts-ignore pass signal if supported
-        const result = await fn();
-        clearTimeout(id);
-        return result;
+        return await fn(attemptSignal);
       } catch (err: any) {
+        if (signal?.aborted) throw new RequestCancelledError();
+        if (attemptSignal.aborted) throw new RequestTimeoutError(this.getTimeoutMs());
+        // A Retry-After or exhausted window holds the next attempt (and everyone else) in the queue
+        const retryAfter = this.rateLimiter.observe(err?.headers);
         attempt++;
         const status = err?.status || err?.response?.status;
         const retriable = status === 429 || (status >= 500 && status < 600);
         if (!retriable || attempt > retries) throw err;
+        // The server said when to come back; a queued request waits exactly that long instead of backing off
+        if (retryAfter) continue;
         const delay = baseDelayMs * Math.pow(2, attempt - 1) + Math.floor(Math.random() * 100);
-        await new Promise((res) => setTimeout(res, delay));
+        // A cancelled backoff wakes early; the check at the top of the loop then throws
+        await sleep(delay, undefined, { signal }).catch(() => {});
       }
     }
   }
+
+  // Rate limit headers from successful responses keep the limiter in step with the server
+  private requestOptions(signal: AbortSignal): ProviderRequestOptions {
+    return { signal, onHeaders: headers => this.rateLimiter.observe(headers) };
+  }
+
+  // A stream has to be read to the end within its timeout, so streams get a longer one
+  private getTimeoutMs(streaming = false): number {
+    return streaming
+      ? parseInt(process.env.OPENAI_STREAM_TIMEOUT_MS || '600000')
+      : parseInt(process.env.OPENAI_TIMEOUT_MS || '30000');
+  }
+
+  private createRequestSignal(signal?: AbortSignal, streaming = false): AbortSignal {
+    const timeout = AbortSignal.timeout(this.getTimeoutMs(streaming));
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+  }
+
+  /**
+   * Error for an aborted request. A cancellation carries an estimate of what was already billed:
+   * the prompt plus any text streamed before the abort.
+   */
+  private createAbortError(params: CreateResponseParams, text: string, model: string, kind: PricingKind): Error {
+    if (!params.signal?.aborted) {
+      return new RequestTimeoutError(this.getTimeoutMs(params.stream === true));
+    }
+    const estimate = this.estimateUsage(params, text, model);
+    const usage = this.buildUsage({
+      input_tokens: estimate.inputTokens,
+      output_tokens: estimate.outputTokens,
+      total_tokens: estimate.inputTokens + estimate.outputTokens
+    }, this.provider.getPricing(model, kind), true);
+    return new RequestCancelledError(usage, model);
+  }
 }
@@ -0,0 +1,148 @@
+import path from 'path';
+import { FallbackInfo, TokenUsage } from './types.js';
+import { GPT5Client } from './openai-client.js';
+import { CostManager } from './cost-manager.js';
+import { JsonFile } from './json-file.js';
+
+export interface PolledRecord {
+  id: string;
+  taskId: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface PolledStoreOptions {
+  // Singular name used in log messages ("job", "batch")
+  label: string;
+  // The file in dataDir and the key its records are stored under
+  fileName: string;
+  key: string;
+  dataDir: string;
+  pollIntervalMs: number;
+  // Finished records are dropped from the file after this long
+  retentionMs: number;
+}
+
+/**
+ * Remote work that runs longer than one MCP call (background jobs, batches). Records are
+ * kept in a JSON file in DATA_DIR, polled on a timer until they finish, and their cost
+ * is recorded once, by whichever poll sees the end first.
+ */
+export abstract class PolledStore<T extends PolledRecord, S> {
+  protected records: Map<string, T> = new Map();
+  protected client: GPT5Client;
+  protected costManager: CostManager;
+  protected ready: Promise<void>;
+  private options: PolledStoreOptions;
+  private file: JsonFile;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(client: GPT5Client, costManager: CostManager, options: PolledStoreOptions) {
+    this.client = client;
+    this.costManager = costManager;
+    this.options = options;
+    this.file = new JsonFile(path.join(options.dataDir, options.fileName));
+    this.ready = this.load();
+  }
+
+  /**
+   * Poll every record that has not finished yet.
+   */
+  async refreshActive(): Promise<void> {
+    await this.ready;
+    const active = Array.from(this.records.values()).filter(record => this.needsPolling(record));
+    for (const record of active) {
+      await this.refresh(record);
+    }
+    if (active.every(record => !this.needsPolling(record))) {
+      this.stopPolling();
+    }
+  }
+
+  /**
+   * Stop polling and write out the records (shutdown).
+   */
+  async flush(): Promise<void> {
+    this.stopPolling();
+    await this.ready;
+    await this.persist();
+  }
+
+  protected abstract isFinished(record: T): boolean;
+
+  // The latest state of the remote work
+  protected abstract fetchState(record: T): Promise<S>;
+
+  // Bring an unfinished record up to date with `state`, recording its cost if it ended
+  protected abstract applyState(record: T, state: S): Promise<void>;
+
+  protected needsPolling(record: T): boolean {
+    return !this.isFinished(record);
+  }
+
+  /**
+   * Fix up a record loaded from the file; returns true when it changed and has to be written back.
+   */
+  protected restore(_record: T): boolean {
+    return false;
+  }
+
+  protected async refresh(record: T): Promise<void> {
+    let state: S;
+    try {
+      state = await this.fetchState(record);
+    } catch (error: any) {
+      // Transient polling failures leave the record as it was; the next poll tries again
+      console.warn(`Failed to poll ${this.options.label} ${record.id}: ${error.message}`);
+      return;
+    }
+    await this.update(record, state);
+  }
+
+  protected async update(record: T, state: S): Promise<void> {
+    // Polls and get() can overlap; only the first to see the end records the cost
+    if (this.isFinished(record)) return;
+    await this.applyState(record, state);
+  }
+
+  protected async recordCost(record: T, usage: TokenUsage, options: { model?: string; fallback?: FallbackInfo } = {}): Promise<void> {
+    // Spending was confirmed when the record was submitted
+    await this.costManager.recordUsage(record.taskId, usage, options);
+  }
+
+  protected startPolling(): void {
+    if (this.pollTimer || this.options.pollIntervalMs <= 0) return;
+    this.pollTimer = setInterval(() => { this.refreshActive().catch(() => {}); }, this.options.pollIntervalMs);
+    // Polling alone should not keep the process alive
+    this.pollTimer.unref();
+  }
+
+  protected persist(): Promise<void> {
+    return this.file.write({ [this.options.key]: Array.from(this.records.values()) });
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async load(): Promise<void> {
+    const data = await this.file.read();
+    if (!data) return;
+
+    const cutoff = Date.now() - this.options.retentionMs;
+    let changed = false;
+    for (const record of (data[this.options.key] || []) as T[]) {
+      if (this.isFinished(record) && new Date(record.completedAt || record.updatedAt).getTime() < cutoff) continue;
+      changed = this.restore(record) || changed;
+      this.records.set(record.id, record);
+    }
+
+    if (changed) await this.persist();
+    if (Array.from(this.records.values()).some(record => this.needsPolling(record))) {
+      this.startPolling();
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import fs from 'fs';
+import { ModelPricing, ProviderName, TokenUsage } from './types.js';
+
+export type PricingKind = 'responses' | 'chat';
+
+// Highest pricing.json format this server reads
+export const PRICING_SCHEMA_VERSION = 1;
+
+export interface PricingData {
+  version: number;
+  effectiveDate: string;
+  defaults: Record<PricingKind, string>;
+  fallbackModels: string[];
+  models: Record<string, ModelPricing>;
+  // Rates a provider bills differently from the OpenAI list prices, by model
+  providers?: Partial<Record<ProviderName, { models: Record<string, ModelPricing> }>>;
+}
+
+/**
+ * Model prices loaded from the bundled config/pricing.json, optionally
+ * overlaid with a user file so a price change is a config edit.
+ * Rates are USD per 1K tokens.
+ */
+export class PricingRegistry {
+  private data: PricingData;
+
+  constructor(data: PricingData) {
+    validatePricingData(data, 'pricing data');
+    this.data = data;
+  }
+
+  /**
+   * Load the bundled registry and merge the override file on top of it, model by model.
+   * A missing override file is fine; a malformed one is an error.
+   */
+  static load(bundledPath: string, overridePath?: string): PricingRegistry {
+    const bundled = JSON.parse(fs.readFileSync(bundledPath, 'utf-8')) as PricingData;
+    validatePricingData(bundled, bundledPath);
+
+    if (!overridePath) return new PricingRegistry(bundled);
+
+    let override: Partial<PricingData>;
+    try {
+      override = JSON.parse(fs.readFileSync(overridePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return new PricingRegistry(bundled);
+      throw new Error(`Failed to read pricing override ${overridePath}: ${error.message}`);
+    }
+
+    const providers: PricingData['providers'] = { ...bundled.providers };
+    for (const [name, section] of Object.entries(override.providers || {}) as [ProviderName, { models: Record<string, ModelPricing> }][]) {
+      providers[name] = { models: mergeModels(providers[name]?.models || {}, section?.models) };
+    }
+
+    return new PricingRegistry({
+      version: override.version ?? bundled.version,
+      effectiveDate: override.effectiveDate ?? bundled.effectiveDate,
+      defaults: { ...bundled.defaults, ...override.defaults },
+      fallbackModels: override.fallbackModels ?? bundled.fallbackModels,
+      models: mergeModels(bundled.models, override.models),
+      providers
+    });
+  }
+
+  /**
+   * The registry as billed by `provider`: its own section's entries replace the list prices
+   * model by model, and models it does not list keep the list price.
+   */
+  forProvider(provider: ProviderName): PricingRegistry {
+    const section = this.data.providers?.[provider];
+    if (!section) return this;
+    return new PricingRegistry({ ...this.data, models: mergeModels(this.data.models, section.models) });
+  }
+
+  get effectiveDate(): string {
+    return this.data.effectiveDate;
+  }
+
+  get version(): number {
+    return this.data.version;
+  }
+
+  /**
+   * Rates for a model. Dated snapshots (e.g. "gpt-5-2025-08-07") match their
+   * base entry by longest prefix; unknown models use the default for the API kind.
+   */
+  getPricing(model: string, kind: PricingKind = 'responses'): ModelPricing {
+    const exact = this.data.models[model];
+    if (exact) return exact;
+
+    const prefix = Object.keys(this.data.models)
+      .filter(name => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return this.data.models[prefix];
+
+    return this.data.models[this.data.defaults[kind]];
+  }
+
+  hasModel(model: string): boolean {
+    return model in this.data.models;
+  }
+
+  getFallbackModels(): string[] {
+    return [...this.data.fallbackModels];
+  }
+}
+
+/**
+ * Cost of a request in USD. Cached input tokens are a subset of input tokens and
+ * reasoning tokens a subset of output tokens, so each subset is billed at its own
+ * rate instead of the base rate.
+ */
+export function calculateUsageCost(
+  pricing: ModelPricing,
+  tokens: { inputTokens: number; outputTokens: number; cachedInputTokens?: number; reasoningTokens?: number }
+): { cost: number; cacheSavings: number } {
+  const cached = Math.min(tokens.cachedInputTokens || 0, tokens.inputTokens);
+  const reasoning = Math.min(tokens.reasoningTokens || 0, tokens.outputTokens);
+  const cachedRate = pricing.cached ?? pricing.input;
+  const reasoningRate = pricing.reasoning ?? pricing.output;
+
+  const inputCost = ((tokens.inputTokens - cached) * pricing.input + cached * cachedRate) / 1000;
+  const outputCost = ((tokens.outputTokens - reasoning) * pricing.output + reasoning * reasoningRate) / 1000;
+
+  return {
+    cost: Number((inputCost + outputCost).toFixed(4)),
+    cacheSavings: Number(((cached * (pricing.input - cachedRate)) / 1000).toFixed(4))
+  };
+}
+
+/**
+ * Add one request's usage into a running total, e.g. across tool-loop iterations.
+ */
+export function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.cachedInputTokens = (total.cachedInputTokens || 0) + (usage.cachedInputTokens || 0);
+  total.reasoningTokens = (total.reasoningTokens || 0) + (usage.reasoningTokens || 0);
+  total.totalTokens += usage.totalTokens;
+  total.estimatedCost = Number((total.estimatedCost + usage.estimatedCost).toFixed(4));
+  total.cacheSavings = Number(((total.cacheSavings || 0) + (usage.cacheSavings || 0)).toFixed(4));
+  if (usage.estimated) total.estimated = true;
+}
+
+/**
+ * Rates for the same model through the Batch API. Models without batch rates in the
+ * registry are charged the regular rates, which overestimates rather than under-charges.
+ */
+export function toBatchPricing(pricing: ModelPricing): ModelPricing {
+  if (!pricing.batch) return pricing;
+  return {
+    input: pricing.batch.input,
+    output: pricing.batch.output,
+    cached: pricing.batch.cached ?? pricing.batch.input,
+    // Reasoning is billed as output
+    reasoning: pricing.batch.output
+  };
+}
+
+function validatePricingData(data: PricingData, source: string): void {
+  if (!data || typeof data !== 'object' || !data.models || typeof data.models !== 'object') {
+    throw new Error(`Invalid pricing registry in ${source}: "models" is required`);
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new Error(`Invalid pricing registry in ${source}: "version" must be a positive integer`);
+  }
+  if (data.version > PRICING_SCHEMA_VERSION) {
+    throw new Error(`Invalid pricing registry in ${source}: version ${data.version} is newer than this server supports (${PRICING_SCHEMA_VERSION})`);
+  }
+  if (typeof data.effectiveDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(data.effectiveDate) || isNaN(Date.parse(data.effectiveDate))) {
+    throw new Error(`Invalid pricing registry in ${source}: "effectiveDate" must be a YYYY-MM-DD date`);
+  }
+  const sections: [string, Record<string, ModelPricing>][] = [
+    ['', data.models],
+    ...Object.entries(data.providers || {}).map(([name, section]) => [`${name} `, section?.models || {}] as [string, Record<string, ModelPricing>])
+  ];
+  for (const [prefix, models] of sections) {
+    for (const [model, pricing] of Object.entries(models)) {
+      if (typeof pricing?.input !== 'number' || typeof pricing?.output !== 'number') {
+        throw new Error(`Invalid pricing registry in ${source}: ${prefix}${model} needs numeric input and output rates`);
+      }
+      if (pricing.batch && (typeof pricing.batch.input !== 'number' || typeof pricing.batch.output !== 'number')) {
+        throw new Error(`Invalid pricing registry in ${source}: ${prefix}${model} batch rates need numeric input and output`);
+      }
+    }
+  }
+  for (const kind of ['responses', 'chat'] as PricingKind[]) {
+    const model = data.defaults?.[kind];
+    if (!model || !data.models[model]) {
+      throw new Error(`Invalid pricing registry in ${source}: default ${kind} model must have a pricing entry`);
+    }
+  }
+}
+
+function mergeModels(base: Record<string, ModelPricing>, overrides?: Record<string, Partial<ModelPricing>>): Record<string, ModelPricing> {
+  const models = { ...base };
+  for (const [model, pricing] of Object.entries(overrides || {})) {
+    models[model] = { ...models[model], ...pricing } as ModelPricing;
+  }
+  return models;
+}
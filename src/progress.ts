@@ -0,0 +1,73 @@
+import { StreamProgressEvent } from './types.js';
+
+type SendProgress = (params: { progress: number; message?: string }) => Promise<void>;
+
+/**
+ * Forwards streaming updates to an MCP client as progress notifications.
+ * Deltas are buffered and flushed on an interval so a fast stream does not
+ * turn into one notification per token; status updates go out immediately.
+ */
+export class ProgressReporter {
+  private send: SendProgress;
+  private intervalMs: number;
+  private progress = 0;
+  private pending: { type: StreamProgressEvent['type']; text: string } | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(send: SendProgress, intervalMs = parseInt(process.env.STREAM_PROGRESS_INTERVAL_MS || '250')) {
+    this.send = send;
+    this.intervalMs = intervalMs;
+  }
+
+  report(event: StreamProgressEvent): void {
+    if (event.type === 'status') {
+      // Keep ordering: anything buffered was produced before this status change
+      this.flushPending();
+      this.emit(`[status] ${event.text}`);
+      return;
+    }
+
+    if (!event.text) return;
+    if (this.pending && this.pending.type !== event.type) {
+      this.flushPending();
+    }
+    if (!this.pending) {
+      this.pending = { type: event.type, text: '' };
+    }
+    this.pending.text += event.text;
+    this.scheduleFlush();
+  }
+
+  async flush(): Promise<void> {
+    this.flushPending();
+    await this.chain;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushPending();
+    }, this.intervalMs);
+  }
+
+  private flushPending(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.pending) return;
+    const { type, text } = this.pending;
+    this.pending = null;
+    this.emit(type === 'reasoning' ? `[reasoning] ${text}` : text);
+  }
+
+  private emit(message: string): void {
+    const progress = ++this.progress;
+    // Notifications are best-effort; a client that went away must not fail the tool call
+    this.chain = this.chain
+      .then(() => this.send({ progress, message }))
+      .catch(() => {});
+  }
+}
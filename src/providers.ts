@@ -0,0 +1,282 @@
+import OpenAI, { AzureOpenAI, toFile } from 'openai';
+import { ModelPricing, ProviderName } from './types.js';
+import { PricingKind, PricingRegistry } from './pricing.js';
+import { CassetteMode, CassetteTransport, Fetch } from './cassette.js';
+import { ResponseHeaders } from './rate-limiter.js';
+
+export type BatchEndpoint = '/v1/responses' | '/v1/chat/completions';
+
+export interface ProviderRequestOptions {
+  /** Aborts the HTTP request (timeouts and client cancellation) */
+  signal?: AbortSignal;
+  /** Receives the HTTP response headers (rate limit state); not called for Responses API streams */
+  onHeaders?: (headers: ResponseHeaders) => void;
+}
+
+/** How the SDK reaches the API; tests and cassette replays swap in their own fetch */
+export interface TransportOptions {
+  fetch?: Fetch;
+  /** SDK-level retries; GPT5Client already retries 429/5xx itself */
+  maxRetries?: number;
+}
+
+/**
+ * An LLM backend that speaks the OpenAI wire format. GPT5Client only talks to
+ * providers, so routing traffic elsewhere is a configuration change.
+ */
+export interface LLMProvider {
+  readonly name: ProviderName;
+  /** Whether the endpoint implements the Responses API; if not, calls go straight to chat completions */
+  readonly supportsResponsesApi: boolean;
+  createResponse(params: any, options?: ProviderRequestOptions): Promise<any>;
+  streamResponse(params: any, options?: ProviderRequestOptions): Promise<any>;
+  createChatCompletion(params: any, options?: ProviderRequestOptions): Promise<any>;
+  /** Fetch a stored response, e.g. to poll one created with background: true */
+  retrieveResponse(responseId: string, options?: ProviderRequestOptions): Promise<any>;
+  /** Stop a background response that is still queued or running */
+  cancelResponse(responseId: string, options?: ProviderRequestOptions): Promise<any>;
+  /** Upload Batch API request lines ({ custom_id, method, url, body }) as JSONL and start a batch */
+  createBatch(requests: any[], endpoint: BatchEndpoint, options?: ProviderRequestOptions): Promise<any>;
+  retrieveBatch(batchId: string, options?: ProviderRequestOptions): Promise<any>;
+  /** Contents of an uploaded or generated file, e.g. a batch's output JSONL */
+  downloadFile(fileId: string, options?: ProviderRequestOptions): Promise<string>;
+  /** Per-1K-token rates for a model; unknown models get the provider's default for that API kind */
+  getPricing(model: string, kind?: PricingKind): ModelPricing;
+  /** Chat models to try, in order, when OPENAI_FALLBACK_MODELS is not set */
+  getDefaultChatModels(): string[];
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: ProviderName = 'openai';
+  readonly supportsResponsesApi: boolean = true;
+  protected client: OpenAI;
+  protected pricing: PricingRegistry;
+
+  // Subclasses for other endpoints pass in a client they configured themselves
+  constructor(options: { apiKey?: string; baseURL?: string; client?: OpenAI; pricing: PricingRegistry; transport?: TransportOptions }) {
+    this.client = options.client ?? new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL || undefined, ...sdkTransport(options.transport) });
+    this.pricing = options.pricing;
+  }
+
+  async createResponse(params: any, options?: ProviderRequestOptions): Promise<any> {
+    return this.withHeaders((this.client as any).responses.create({ ...params, model: this.resolveModel(params.model) }, { signal: options?.signal }), options);
+  }
+
+  async streamResponse(params: any, options?: ProviderRequestOptions): Promise<any> {
+    return (this.client as any).responses.stream({ ...params, model: this.resolveModel(params.model) }, { signal: options?.signal });
+  }
+
+  async createChatCompletion(params: any, options?: ProviderRequestOptions): Promise<any> {
+    return this.withHeaders(this.client.chat.completions.create({ ...params, model: this.resolveModel(params.model) }, { signal: options?.signal }), options);
+  }
+
+  async retrieveResponse(responseId: string, options?: ProviderRequestOptions): Promise<any> {
+    return (this.client as any).responses.retrieve(responseId, {}, options);
+  }
+
+  async cancelResponse(responseId: string, options?: ProviderRequestOptions): Promise<any> {
+    return (this.client as any).responses.cancel(responseId, options);
+  }
+
+  async createBatch(requests: any[], endpoint: BatchEndpoint, options?: ProviderRequestOptions): Promise<any> {
+    const jsonl = requests
+      .map(request => JSON.stringify({ ...request, body: { ...request.body, model: this.resolveModel(request.body.model) } }))
+      .join('\n');
+    // A re-uploaded file costs nothing, so only the upload is left to the SDK's retries
+    const file = await this.client.files.create({ file: await toFile(Buffer.from(jsonl), 'batch.jsonl'), purpose: 'batch' }, options);
+    return this.client.batches.create({ input_file_id: file.id, endpoint, completion_window: '24h' }, { ...options, maxRetries: 0 });
+  }
+
+  async retrieveBatch(batchId: string, options?: ProviderRequestOptions): Promise<any> {
+    return this.client.batches.retrieve(batchId, options);
+  }
+
+  async downloadFile(fileId: string, options?: ProviderRequestOptions): Promise<string> {
+    const response = await this.client.files.content(fileId, options);
+    return response.text();
+  }
+
+  getPricing(model: string, kind: PricingKind = 'responses'): ModelPricing {
+    return this.pricing.getPricing(model, kind);
+  }
+
+  getDefaultChatModels(): string[] {
+    return this.pricing.getFallbackModels();
+  }
+
+  protected resolveModel(model: string): string {
+    return model;
+  }
+
+  private async withHeaders(request: any, options?: ProviderRequestOptions): Promise<any> {
+    if (!options?.onHeaders) return request;
+    const { data, response } = await request.withResponse();
+    const headers: ResponseHeaders = {};
+    response.headers.forEach((value: string, name: string) => { headers[name.toLowerCase()] = value; });
+    options.onHeaders(headers);
+    return data;
+  }
+}
+
+export class AzureOpenAIProvider extends OpenAIProvider {
+  readonly name: ProviderName = 'azure';
+  private deployments: Record<string, string>;
+
+  constructor(options: {
+    apiKey: string;
+    endpoint: string;
+    apiVersion: string;
+    deployments?: Record<string, string>;
+    pricing: PricingRegistry;
+    transport?: TransportOptions;
+  }) {
+    super({
+      client: new AzureOpenAI({
+        apiKey: options.apiKey,
+        endpoint: options.endpoint,
+        apiVersion: options.apiVersion,
+        ...sdkTransport(options.transport)
+      }),
+      // Azure's own rates from the registry's azure section; models it does not list keep the list price
+      pricing: options.pricing.forProvider('azure')
+    });
+    this.deployments = options.deployments || {};
+  }
+
+  getDefaultChatModels(): string[] {
+    const mapped = Object.keys(this.deployments);
+    return mapped.length > 0 ? mapped : super.getDefaultChatModels();
+  }
+
+  protected resolveModel(model: string): string {
+    // Azure addresses models by deployment name; unmapped models are assumed to be deployed under their own name
+    return this.deployments[model] || model;
+  }
+}
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: ProviderName = 'openai-compatible';
+  readonly supportsResponsesApi: boolean;
+  private models: string[];
+  private defaultPricing: ModelPricing;
+
+  constructor(options: {
+    baseURL: string;
+    apiKey?: string;
+    models: string[];
+    supportsResponsesApi?: boolean;
+    pricing?: ModelPricing;
+    registry: PricingRegistry;
+    transport?: TransportOptions;
+  }) {
+    // Local servers (vLLM, Ollama, ...) usually ignore the key but the SDK requires one
+    super({ apiKey: options.apiKey || 'not-needed', baseURL: options.baseURL, pricing: options.registry, transport: options.transport });
+    this.supportsResponsesApi = options.supportsResponsesApi ?? false;
+    this.models = options.models;
+    this.defaultPricing = options.pricing || { input: 0, output: 0 };
+  }
+
+  getPricing(_model: string, _kind?: PricingKind): ModelPricing {
+    // Self-hosted models are not in the OpenAI price list
+    return this.defaultPricing;
+  }
+
+  getDefaultChatModels(): string[] {
+    return this.models;
+  }
+}
+
+function sdkTransport(transport?: TransportOptions): { fetch?: any; maxRetries?: number } {
+  if (!transport) return {};
+  // The SDK types fetch against its own shims; any WHATWG-compatible fetch works at runtime
+  return {
+    ...(transport.fetch ? { fetch: transport.fetch as any } : {}),
+    ...(transport.maxRetries !== undefined ? { maxRetries: transport.maxRetries } : {})
+  };
+}
+
+/**
+ * Transport for OPENAI_CASSETTE: record every API exchange to that file, or replay it offline
+ * (OPENAI_CASSETTE_MODE, default replay). SDK retries are turned off so each attempt GPT5Client
+ * makes is exactly one exchange in the cassette.
+ */
+export function createCassetteTransport(env: NodeJS.ProcessEnv): TransportOptions | undefined {
+  if (!env.OPENAI_CASSETTE) return undefined;
+  const mode = (env.OPENAI_CASSETTE_MODE || 'replay') as CassetteMode;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown OPENAI_CASSETTE_MODE: ${mode}`);
+  }
+  return { fetch: new CassetteTransport(env.OPENAI_CASSETTE, mode).fetch, maxRetries: 0 };
+}
+
+function parseDeployments(value?: string): Record<string, string> {
+  // Format: "gpt-5=my-gpt5-deployment,gpt-4o=my-4o-deployment"
+  const deployments: Record<string, string> = {};
+  if (!value) return deployments;
+  for (const pair of value.split(',')) {
+    const [model, deployment] = pair.split('=').map(s => s.trim());
+    if (model && deployment) deployments[model] = deployment;
+  }
+  return deployments;
+}
+
+/**
+ * Build the provider selected by LLM_PROVIDER (openai | azure | openai-compatible).
+ */
+export function createProvider(env: NodeJS.ProcessEnv, pricing: PricingRegistry): LLMProvider {
+  const name = (env.LLM_PROVIDER || 'openai') as ProviderName;
+  const transport = createCassetteTransport(env);
+
+  switch (name) {
+    case 'azure': {
+      const endpoint = env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = env.AZURE_OPENAI_API_KEY || env.OPENAI_API_KEY;
+      if (!endpoint || !apiKey) {
+        throw new Error('AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY are required when LLM_PROVIDER=azure');
+      }
+      return new AzureOpenAIProvider({
+        apiKey,
+        endpoint,
+        apiVersion: env.AZURE_OPENAI_API_VERSION || '2025-03-01-preview',
+        deployments: parseDeployments(env.AZURE_OPENAI_DEPLOYMENTS),
+        pricing,
+        transport
+      });
+    }
+
+    case 'openai-compatible': {
+      const baseURL = env.OPENAI_COMPATIBLE_BASE_URL || env.OPENAI_API_BASE;
+      if (!baseURL) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL is required when LLM_PROVIDER=openai-compatible');
+      }
+      const models = (env.OPENAI_COMPATIBLE_MODELS || '').split(',').map(s => s.trim()).filter(Boolean);
+      if (models.length === 0) {
+        throw new Error('OPENAI_COMPATIBLE_MODELS must list at least one model when LLM_PROVIDER=openai-compatible');
+      }
+      return new OpenAICompatibleProvider({
+        baseURL,
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+        models,
+        supportsResponsesApi: env.OPENAI_COMPATIBLE_RESPONSES_API === 'true',
+        pricing: {
+          input: parseFloat(env.OPENAI_COMPATIBLE_INPUT_PRICE || '0'),
+          output: parseFloat(env.OPENAI_COMPATIBLE_OUTPUT_PRICE || '0')
+        },
+        registry: pricing,
+        transport
+      });
+    }
+
+    case 'openai': {
+      // Replaying a cassette never reaches the API, so it needs no real key
+      const apiKey = env.OPENAI_API_KEY || (transport && env.OPENAI_CASSETTE_MODE !== 'record' ? 'cassette-replay' : undefined);
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+      return new OpenAIProvider({ apiKey, baseURL: env.OPENAI_API_BASE, pricing, transport });
+    }
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
@@ -0,0 +1,259 @@
+export interface RateLimitStatus {
+  // Configured client-side limits; 0 means only the server's headers are followed
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  availableRequests?: number;
+  availableTokens?: number;
+  queueDepth: number;
+  // Set while a Retry-After or an exhausted x-ratelimit-* window holds every request back
+  pausedUntil?: string;
+  pauseReason?: string;
+  // Requests that had to wait for capacity, and for how long
+  waitedRequests: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  lastWaitMs: number;
+}
+
+interface Bucket {
+  capacity: number;
+  level: number;
+  updatedAt: number;
+}
+
+// The server's view of the window, from x-ratelimit-remaining-* and x-ratelimit-reset-*
+interface ServerWindow {
+  remaining: number;
+  resetAt: number;
+}
+
+interface Waiter {
+  tokens: number;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: any) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export type ResponseHeaders = Record<string, string | null | undefined>;
+
+const MINUTE_MS = 60_000;
+// A Retry-After of 0 (or one already in the past) still holds the queue this long, so a
+// throttled request is never resent immediately
+const MIN_RETRY_AFTER_MS = 250;
+
+/**
+ * Token-bucket limiter for requests per minute and tokens per minute. Requests wait in a
+ * single FIFO queue, so a large request is not starved by a stream of small ones. Rate limit
+ * headers from the API narrow the buckets further: several processes sharing one key each
+ * see the server's remaining budget, and a Retry-After pauses the whole queue.
+ */
+export class RateLimiter {
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private serverRequests?: ServerWindow;
+  private serverTokens?: ServerWindow;
+  private pausedUntil = 0;
+  private pauseReason?: string;
+  private queue: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private waitedRequests = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private lastWaitMs = 0;
+
+  constructor(
+    requestsPerMinute = parseInt(process.env.OPENAI_RPM_LIMIT || '0'),
+    tokensPerMinute = parseInt(process.env.OPENAI_TPM_LIMIT || '0')
+  ) {
+    const now = Date.now();
+    if (requestsPerMinute > 0) this.requests = { capacity: requestsPerMinute, level: requestsPerMinute, updatedAt: now };
+    if (tokensPerMinute > 0) this.tokens = { capacity: tokensPerMinute, level: tokensPerMinute, updatedAt: now };
+  }
+
+  /**
+   * Wait for room to send one request of about `tokens` tokens. Rejects only if `signal`
+   * aborts while the request is still queued.
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { tokens: Math.max(0, tokens), enqueuedAt: Date.now(), resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          reject(signal.reason);
+          this.pump();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Take capacity for a request right away if nothing is queued and there is room.
+   */
+  tryAcquire(tokens: number): boolean {
+    const now = Date.now();
+    if (this.queue.length > 0 || this.waitTime(Math.max(0, tokens), now) > 0) return false;
+    this.take(Math.max(0, tokens), now);
+    this.lastWaitMs = 0;
+    return true;
+  }
+
+  /**
+   * Apply the rate limit headers of a response or error: Retry-After (or retry-after-ms)
+   * pauses the queue, and x-ratelimit-remaining/reset caps what may be sent until the reset.
+   * Returns true when the headers carried a Retry-After.
+   */
+  observe(headers?: ResponseHeaders): boolean {
+    if (!headers) return false;
+    const header = (name: string) => headers[name] ?? undefined;
+    const now = Date.now();
+
+    const retryAfter = parseRetryAfter(header('retry-after-ms'), header('retry-after'), now);
+    if (retryAfter !== undefined) {
+      this.pause(now + Math.max(retryAfter, MIN_RETRY_AFTER_MS), 'Retry-After from the API');
+    }
+
+    const requests = parseWindow(header('x-ratelimit-remaining-requests'), header('x-ratelimit-reset-requests'), now);
+    if (requests) {
+      this.serverRequests = requests;
+      if (this.requests) this.requests.level = Math.min(this.refill(this.requests, now), requests.remaining);
+    }
+    const tokens = parseWindow(header('x-ratelimit-remaining-tokens'), header('x-ratelimit-reset-tokens'), now);
+    if (tokens) {
+      this.serverTokens = tokens;
+      if (this.tokens) this.tokens.level = Math.min(this.refill(this.tokens, now), tokens.remaining);
+    }
+    this.pump();
+    return retryAfter !== undefined;
+  }
+
+  getStatus(): RateLimitStatus {
+    const now = Date.now();
+    return {
+      requestsPerMinute: this.requests?.capacity || 0,
+      tokensPerMinute: this.tokens?.capacity || 0,
+      availableRequests: this.requests ? Math.floor(this.refill(this.requests, now)) : undefined,
+      availableTokens: this.tokens ? Math.floor(this.refill(this.tokens, now)) : undefined,
+      queueDepth: this.queue.length,
+      pausedUntil: this.pausedUntil > now ? new Date(this.pausedUntil).toISOString() : undefined,
+      pauseReason: this.pausedUntil > now ? this.pauseReason : undefined,
+      waitedRequests: this.waitedRequests,
+      averageWaitMs: this.waitedRequests > 0 ? Math.round(this.totalWaitMs / this.waitedRequests) : 0,
+      maxWaitMs: this.maxWaitMs,
+      lastWaitMs: this.lastWaitMs
+    };
+  }
+
+  private pause(until: number, reason: string): void {
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      this.pauseReason = reason;
+    }
+  }
+
+  // Admit queued requests from the front until one has to wait, then wake up when it can go
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    while (this.queue.length > 0) {
+      const head = this.queue[0];
+      const now = Date.now();
+      const waitMs = this.waitTime(head.tokens, now);
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, waitMs);
+        return;
+      }
+
+      this.queue.shift();
+      this.take(head.tokens, now);
+      if (head.signal && head.onAbort) head.signal.removeEventListener('abort', head.onAbort);
+      const waited = now - head.enqueuedAt;
+      this.lastWaitMs = waited;
+      if (waited > 0) {
+        this.waitedRequests++;
+        this.totalWaitMs += waited;
+        this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+      }
+      head.resolve();
+    }
+  }
+
+  private waitTime(tokens: number, now: number): number {
+    let wait = Math.max(0, this.pausedUntil - now);
+    if (this.requests) wait = Math.max(wait, this.bucketWait(this.requests, 1, now));
+    // A request bigger than the whole bucket goes once the bucket is full rather than never
+    if (this.tokens) wait = Math.max(wait, this.bucketWait(this.tokens, Math.min(tokens, this.tokens.capacity), now));
+    if (this.serverRequests && now < this.serverRequests.resetAt && this.serverRequests.remaining < 1) {
+      wait = Math.max(wait, this.serverRequests.resetAt - now);
+    }
+    if (this.serverTokens && now < this.serverTokens.resetAt && this.serverTokens.remaining < tokens) {
+      wait = Math.max(wait, this.serverTokens.resetAt - now);
+    }
+    return wait;
+  }
+
+  private take(tokens: number, now: number): void {
+    if (this.requests) this.requests.level = this.refill(this.requests, now) - 1;
+    if (this.tokens) this.tokens.level = this.refill(this.tokens, now) - Math.min(tokens, this.tokens.capacity);
+    // Spend the server's budget too, until the next response reports it again
+    if (this.serverRequests) this.serverRequests.remaining -= 1;
+    if (this.serverTokens) this.serverTokens.remaining -= tokens;
+  }
+
+  private bucketWait(bucket: Bucket, cost: number, now: number): number {
+    const level = this.refill(bucket, now);
+    if (level >= cost) return 0;
+    return Math.ceil((cost - level) * MINUTE_MS / bucket.capacity);
+  }
+
+  private refill(bucket: Bucket, now: number): number {
+    bucket.level = Math.min(bucket.capacity, bucket.level + (now - bucket.updatedAt) * bucket.capacity / MINUTE_MS);
+    bucket.updatedAt = now;
+    return bucket.level;
+  }
+}
+
+function parseRetryAfter(retryAfterMs: string | undefined, retryAfter: string | undefined, now: number): number | undefined {
+  if (retryAfterMs !== undefined && !isNaN(parseFloat(retryAfterMs))) {
+    return Math.max(0, parseFloat(retryAfterMs));
+  }
+  if (retryAfter === undefined) return undefined;
+  const seconds = parseFloat(retryAfter);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  // Retry-After may also be an HTTP date
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function parseWindow(remaining: string | undefined, reset: string | undefined, now: number): ServerWindow | undefined {
+  if (remaining === undefined || reset === undefined) return undefined;
+  const count = parseInt(remaining);
+  const resetMs = parseDuration(reset);
+  if (isNaN(count) || resetMs === undefined) return undefined;
+  return { remaining: count, resetAt: now + resetMs };
+}
+
+/**
+ * Parse the API's reset durations: "20ms", "1s", "6m0s", "1h2m3.5s".
+ */
+export function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = '';
+  for (const match of value.trim().matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += parseFloat(match[1]) * units[match[2]];
+    matched += match[0];
+  }
+  return matched.length > 0 && matched === value.trim() ? Math.round(total) : undefined;
+}
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Attachment, GPT5Response, TokenUsage } from './types.js';
+
+// Everything that changes the answer to a consult request
+export interface CacheKeyParts {
+  model: string;
+  instructions?: string;
+  input: string | any[];
+  reasoningEffort?: string;
+  temperature?: number;
+  // A smaller limit can cut the answer short
+  maxTokens?: number;
+  verbosity?: string;
+  responseSchema?: Record<string, any>;
+  attachments?: Attachment[];
+}
+
+export interface CachedResponse {
+  key: string;
+  createdAt: string;
+  model?: string;
+  text: string;
+  // What the original request cost; a hit saves this much
+  usage: TokenUsage;
+}
+
+/**
+ * On-disk cache of consult answers, one JSON file per content hash. Entries expire after
+ * `ttlMs`; when the directory grows past `maxBytes` the least recently used are removed.
+ */
+export class ResponseCache {
+  private dir: string;
+  private ttlMs: number;
+  private maxBytes: number;
+
+  constructor(
+    dir: string,
+    ttlMs = parseInt(process.env.RESPONSE_CACHE_TTL_MS || '86400000'),
+    maxBytes = parseInt(process.env.RESPONSE_CACHE_MAX_BYTES || '52428800')
+  ) {
+    this.dir = dir;
+    this.ttlMs = ttlMs;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * SHA-256 over the request. Attachments are hashed by content so the key stays small.
+   */
+  static keyFor(parts: CacheKeyParts): string {
+    const material = {
+      ...parts,
+      attachments: parts.attachments?.map(attachment => ({
+        mimeType: attachment.mimeType,
+        sha256: crypto.createHash('sha256').update(attachment.data).digest('hex')
+      }))
+    };
+    return crypto.createHash('sha256').update(stableStringify(material)).digest('hex');
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const file = this.fileFor(key);
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+    // Touch the file so size-cap eviction keeps recently used answers
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => {});
+    return entry;
+  }
+
+  async set(key: string, response: GPT5Response): Promise<void> {
+    // A cut-off answer would be served as if it were complete
+    if (response.incomplete) return;
+    const entry: CachedResponse = {
+      key,
+      createdAt: new Date().toISOString(),
+      model: response.model,
+      text: response.text,
+      usage: response.usage
+    };
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      const file = this.fileFor(key);
+      await fs.writeFile(file + '.tmp', JSON.stringify(entry));
+      await fs.rename(file + '.tmp', file);
+      await this.prune();
+    } catch (error) {
+      // A cache that cannot be written only costs money, never correctness
+      console.error('Failed to write response cache entry:', error);
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const entries: { file: string; size: number; mtimeMs: number }[] = [];
+    for (const name of await fs.readdir(this.dir)) {
+      if (!name.endsWith('.json')) continue;
+      const file = path.join(this.dir, name);
+      const stat = await fs.stat(file).catch(() => undefined);
+      if (!stat) continue;
+      if (Date.now() - stat.mtimeMs > this.ttlMs && await this.expiredOnDisk(file)) {
+        await fs.rm(file, { force: true });
+        continue;
+      }
+      entries.push({ file, size: stat.size, mtimeMs: stat.mtimeMs });
+    }
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of entries) {
+      if (total <= this.maxBytes) break;
+      await fs.rm(entry.file, { force: true });
+      total -= entry.size;
+    }
+  }
+
+  // mtime moves on every hit, so only the stored creation time decides expiry
+  private async expiredOnDisk(file: string): Promise<boolean> {
+    try {
+      return this.isExpired(JSON.parse(await fs.readFile(file, 'utf-8')));
+    } catch {
+      return true;
+    }
+  }
+
+  private isExpired(entry: CachedResponse): boolean {
+    return Date.now() - new Date(entry.createdAt).getTime() > this.ttlMs;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+// JSON with object keys sorted, so equal requests hash equally whatever order they were built in
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,137 @@
+import { ReasoningEffort } from './types.js';
+
+export const TASK_TYPES = ['quick_check', 'explanation', 'code_review', 'debugging', 'refactoring', 'architecture'] as const;
+export type TaskType = typeof TASK_TYPES[number];
+
+// light: a small, cheap model for simple questions; standard: the primary model
+export type ModelTier = 'light' | 'standard';
+
+export interface RouteInput {
+  prompt: string;
+  // Whole request: prompt, context, resources and attachment estimates
+  promptTokens: number;
+  // MIME types of attached images/PDFs, plus 'text' when text resources are included
+  resourceKinds: string[];
+  taskType?: TaskType;
+  // From CostManager.getDailyReport
+  remainingBudget: number;
+  dailyLimit: number;
+}
+
+export interface Route {
+  model: string;
+  tier: ModelTier;
+  effort: ReasoningEffort;
+  // Which rules decided the route, for the tool result
+  reason: string;
+}
+
+export interface RouterModels {
+  light: string;
+  standard: string;
+}
+
+interface RouteRule {
+  matches: (input: RouteInput) => boolean;
+  tier: ModelTier;
+  effort: ReasoningEffort;
+  reason: (input: RouteInput) => string;
+}
+
+const TASK_TYPE_ROUTES: Record<TaskType, { tier: ModelTier; effort: ReasoningEffort }> = {
+  quick_check: { tier: 'light', effort: 'minimal' },
+  explanation: { tier: 'light', effort: 'low' },
+  code_review: { tier: 'standard', effort: 'medium' },
+  refactoring: { tier: 'standard', effort: 'medium' },
+  debugging: { tier: 'standard', effort: 'high' },
+  architecture: { tier: 'standard', effort: 'high' }
+};
+
+const HEAVY_KEYWORDS = /\b(architect\w*|design|trade-?offs?|scalab\w*|security|vulnerab\w*|threat model|race conditions?|deadlocks?|concurren\w*|prove|proof|algorithm\w*|root cause|migration plan)\b/i;
+const LIGHT_KEYWORDS = /\b(typo|spelling|rename|syntax|format(ting)?|one-liner|quick(ly)?|what does|what is|translate|regex)\b/i;
+
+// Above this the request is large enough that a small model would lose track of it
+const LARGE_PROMPT_TOKENS = 8000;
+// Below this a question without other signals is treated as simple
+const SHORT_PROMPT_TOKENS = 200;
+
+// Checked in order; the first match decides the route before the budget adjustment
+const RULES: RouteRule[] = [
+  {
+    matches: input => input.taskType !== undefined,
+    tier: 'standard',
+    effort: 'medium',
+    reason: input => `task type ${input.taskType}`
+  },
+  {
+    matches: input => HEAVY_KEYWORDS.test(input.prompt),
+    tier: 'standard',
+    effort: 'high',
+    reason: input => `prompt mentions "${HEAVY_KEYWORDS.exec(input.prompt)![0].toLowerCase()}"`
+  },
+  {
+    matches: input => input.promptTokens >= LARGE_PROMPT_TOKENS,
+    tier: 'standard',
+    effort: 'medium',
+    reason: input => `large request (${input.promptTokens} tokens)`
+  },
+  {
+    matches: input => input.resourceKinds.some(kind => kind !== 'text'),
+    tier: 'standard',
+    effort: 'medium',
+    reason: input => `attachments (${Array.from(new Set(input.resourceKinds.filter(kind => kind !== 'text'))).join(', ')})`
+  },
+  {
+    matches: input => LIGHT_KEYWORDS.test(input.prompt) && input.promptTokens < LARGE_PROMPT_TOKENS / 4,
+    tier: 'light',
+    effort: 'low',
+    reason: input => `simple request ("${LIGHT_KEYWORDS.exec(input.prompt)![0].toLowerCase()}")`
+  },
+  {
+    matches: input => input.promptTokens < SHORT_PROMPT_TOKENS && input.resourceKinds.length === 0,
+    tier: 'light',
+    effort: 'low',
+    reason: input => `short prompt (${input.promptTokens} tokens)`
+  }
+];
+
+const EFFORT_ORDER: ReasoningEffort[] = ['minimal', 'low', 'medium', 'high'];
+
+/**
+ * Models the router chooses between: ROUTER_LIGHT_MODEL (default gpt-5-mini) and
+ * ROUTER_STANDARD_MODEL (default the primary model).
+ */
+export function routerModelsFromEnv(primaryModel: string, env: NodeJS.ProcessEnv = process.env): RouterModels {
+  return {
+    light: env.ROUTER_LIGHT_MODEL || 'gpt-5-mini',
+    standard: env.ROUTER_STANDARD_MODEL || primaryModel
+  };
+}
+
+/**
+ * Pick a model and reasoning effort for reasoning_effort=auto. A declared task type wins;
+ * otherwise the first matching rule, or the standard model at medium effort. With under 25%
+ * of the daily budget left the effort drops a level, and under 10% the light model is used.
+ */
+export function chooseRoute(input: RouteInput, models: RouterModels): Route {
+  const rule = RULES.find(candidate => candidate.matches(input));
+  const declared = input.taskType ? TASK_TYPE_ROUTES[input.taskType] : undefined;
+  let tier: ModelTier = declared?.tier ?? rule?.tier ?? 'standard';
+  let effort: ReasoningEffort = declared?.effort ?? rule?.effort ?? 'medium';
+  const reasons = [rule ? rule.reason(input) : 'no specific signals'];
+
+  if (input.dailyLimit > 0) {
+    const left = Math.max(0, input.remainingBudget) / input.dailyLimit;
+    const percent = `${Math.round(left * 100)}% of the daily budget left`;
+    if (left < 0.1) {
+      tier = 'light';
+      effort = EFFORT_ORDER[Math.min(EFFORT_ORDER.indexOf(effort), EFFORT_ORDER.indexOf('low'))];
+      reasons.push(`${percent}: light model, effort at most low`);
+    } else if (left < 0.25 && effort !== 'minimal') {
+      effort = EFFORT_ORDER[EFFORT_ORDER.indexOf(effort) - 1];
+      reasons.push(`${percent}: effort lowered to ${effort}`);
+    }
+  }
+
+  return { model: models[tier], tier, effort, reason: reasons.join('; ') };
+}
@@ -0,0 +1,82 @@
+import { Ajv } from 'ajv';
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import { ResponseFormat } from './types.js';
+
+export type StructuredOutputResult =
+  | { valid: true; value: any }
+  | { valid: false; errors: string[] };
+
+/**
+ * Build the response format sent to the API for a caller-supplied JSON Schema.
+ * Strict mode is off because arbitrary schemas rarely meet its requirements;
+ * the server validates the result itself instead.
+ */
+export function createResponseFormat(schema: Record<string, any>, name = 'response'): ResponseFormat {
+  const ajv = createAjv(schema);
+  const valid = ajv.validateSchema(schema);
+  if (!valid) {
+    throw new Error(`Invalid response_schema: ${ajv.errorsText(ajv.errors)}`);
+  }
+  // Compile now too (unresolvable $refs and the like), so a bad schema fails before the paid request
+  try {
+    ajv.compile(schema);
+  } catch (error: any) {
+    throw new Error(`Invalid response_schema: ${error.message}`);
+  }
+  return { name, schema, strict: false };
+}
+
+/**
+ * Parse model output as JSON and validate it against the schema.
+ * Markdown code fences are tolerated since models add them even in JSON mode.
+ */
+export function validateStructuredOutput(text: string, schema: Record<string, any>): StructuredOutputResult {
+  const cleaned = stripCodeFence(text.trim());
+
+  let value: any;
+  try {
+    value = JSON.parse(cleaned);
+  } catch (error: any) {
+    return { valid: false, errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  const validate = createAjv(schema).compile(schema);
+  if (validate(value)) {
+    return { valid: true, value };
+  }
+
+  const errors = (validate.errors || []).map(err => `${err.instancePath || '/'} ${err.message}`.trim());
+  return { valid: false, errors };
+}
+
+/**
+ * Prompt asking the model to fix its previous output.
+ */
+export function buildRepairPrompt(originalInput: string, previousOutput: string, errors: string[]): string {
+  return [
+    originalInput,
+    '',
+    'Your previous response did not match the required JSON Schema.',
+    'Previous response:',
+    previousOutput,
+    '',
+    'Validation errors:',
+    ...errors.map(e => `- ${e}`),
+    '',
+    'Return only the corrected JSON document, with no commentary or code fences.'
+  ].join('\n');
+}
+
+// A fresh instance per schema: a shared one keeps every compiled schema registered under its
+// $id, so the next request reusing that $id would fail to compile
+function createAjv(schema: Record<string, any>): Ajv {
+  const options = { allErrors: true, strict: false };
+  return typeof schema.$schema === 'string' && schema.$schema.includes('2020-12')
+    ? new Ajv2020(options)
+    : new Ajv(options);
+}
+
+function stripCodeFence(text: string): string {
+  const match = text.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  return match ? match[1] : text;
+}
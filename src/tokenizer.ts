@@ -0,0 +1,49 @@
+import * as o200k from 'gpt-tokenizer/encoding/o200k_base';
+import * as cl100k from 'gpt-tokenizer/encoding/cl100k_base';
+
+export type EncodingName = 'o200k_base' | 'cl100k_base';
+
+const ENCODINGS = { o200k_base: o200k, cl100k_base: cl100k };
+
+// User text is counted as plain text: special tokens such as <|endoftext|> in a pasted file
+// are encoded as ordinary characters instead of making gpt-tokenizer throw
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() };
+
+// Added when truncateToTokens cuts text, so the model knows the content is incomplete
+export const TRUNCATION_MARKER = '\n\n[... content truncated to prevent token waste - file too large for current task budget ...]';
+
+/**
+ * The BPE encoding a model uses. GPT-4 (before 4o) and GPT-3.5 use cl100k; GPT-5, the
+ * GPT-4o/4.1 family and the o-series use o200k, which is also assumed for unknown models.
+ */
+export function encodingForModel(model?: string): EncodingName {
+  const name = (model || '').toLowerCase();
+  if (/^gpt-3\.5|^gpt-4(?![o.])|^text-embedding-(ada|3)/.test(name)) {
+    return 'cl100k_base';
+  }
+  return 'o200k_base';
+}
+
+/**
+ * Count tokens with the BPE encoding of `model` (o200k by default). The encodings are
+ * bundled with gpt-tokenizer, so counting never touches the network.
+ */
+export function countTokens(text: string, model?: string): number {
+  if (!text) return 0;
+  return ENCODINGS[encodingForModel(model)].encode(text, PLAIN_TEXT).length;
+}
+
+/**
+ * Cut text to at most `maxTokens` tokens at a token boundary, appending TRUNCATION_MARKER
+ * when anything was removed. The marker itself is not counted against the limit.
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+  const encoding = ENCODINGS[encodingForModel(model)];
+  const limit = Math.max(0, Math.floor(maxTokens));
+  // Cheap check first: most text fits and does not need a full encode-and-decode
+  if (encoding.isWithinTokenLimit(text, limit, PLAIN_TEXT) !== false) return text;
+
+  const tokens = encoding.encode(text, PLAIN_TEXT).slice(0, limit);
+  // A multi-byte character split across the cut decodes to U+FFFD; drop it
+  return encoding.decode(tokens).replace(/�+$/, '') + TRUNCATION_MARKER;
+}
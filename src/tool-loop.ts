@@ -0,0 +1,78 @@
+import { GPT5Client } from './openai-client.js';
+import { CostManager } from './cost-manager.js';
+import { LocalToolRegistry } from './local-tools.js';
+import { addUsage } from './pricing.js';
+import { CreateResponseParams, GPT5Response, TokenUsage } from './types.js';
+
+export interface ToolLoopOptions {
+  taskId: string;
+  input: string;
+  requestOptions: Omit<CreateResponseParams, 'input' | 'tools' | 'stream' | 'onProgress'>;
+  maxIterations: number;
+  maxCost: number;
+  confirmSpending: boolean;
+}
+
+export interface ToolLoopResult {
+  response: GPT5Response;
+  usage: TokenUsage;
+  iterations: number;
+  toolCalls: number;
+  stopReason?: string;
+}
+
+/**
+ * Let GPT-5 call local tools until it produces a final message or a cap is hit.
+ * Each iteration is a separate billed request, so usage is recorded as it happens
+ * and the remaining budget is re-checked before the next round trip.
+ */
+export async function runToolLoop(
+  client: GPT5Client,
+  costManager: CostManager,
+  registry: LocalToolRegistry,
+  options: ToolLoopOptions
+): Promise<ToolLoopResult> {
+  const tools = registry.getDefinitions();
+  let input: any[] = [{ role: 'user', content: options.input }];
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, reasoningTokens: 0, totalTokens: 0, estimatedCost: 0, cacheSavings: 0 };
+  let toolCalls = 0;
+
+  for (let iteration = 1; ; iteration++) {
+    const response = await client.createResponse({ ...options.requestOptions, input, tools });
+
+    await costManager.recordUsage(options.taskId, response.usage, { model: response.model, fallback: response.fallback });
+    addUsage(usage, response.usage);
+
+    const calls = response.toolCalls || [];
+    if (calls.length === 0) {
+      return { response, usage, iterations: iteration, toolCalls };
+    }
+
+    let stopReason: string | undefined;
+    if (iteration >= options.maxIterations) {
+      stopReason = `Stopped after ${iteration} iterations (tool loop iteration cap)`;
+    } else if (usage.estimatedCost >= options.maxCost) {
+      stopReason = `Stopped after spending $${usage.estimatedCost.toFixed(4)} (tool loop cost cap $${options.maxCost.toFixed(2)})`;
+    } else {
+      // Assume the next round trip costs about as much as the last one
+      const check = await costManager.checkAndRecordUsage(options.taskId, response.usage, options.confirmSpending, { record: false });
+      if (!check.allowed) stopReason = check.reason;
+    }
+    if (stopReason) {
+      return { response, usage, iterations: iteration, toolCalls, stopReason };
+    }
+
+    const outputs: any[] = [];
+    for (const call of calls) {
+      outputs.push({
+        type: 'function_call_output',
+        call_id: call.callId,
+        output: await registry.execute(call.name, call.arguments)
+      });
+      toolCalls++;
+    }
+
+    // Replay the model's own output items (reasoning + function calls) so the call ids resolve
+    input = [...input, ...(response.raw?.output || []), ...outputs];
+  }
+}
@@ -1,9 +1,39 @@
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
+  // Subset of inputTokens served from the prompt cache
+  cachedInputTokens?: number;
+  // Subset of outputTokens spent on hidden reasoning
   reasoningTokens?: number;
   totalTokens: number;
   estimatedCost: number;
+  // USD saved by billing cached input at the cached rate
+  cacheSavings?: number;
+  // True when token counts come from a local tokenizer because the API reported no usage
+  estimated?: boolean;
+}
+
+export interface StreamProgressEvent {
+  type: 'status' | 'reasoning' | 'text_delta';
+  text: string;
+}
+
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, any>;
+  strict?: boolean;
+}
+
+export type ProviderName = 'openai' | 'azure' | 'openai-compatible';
+
+// USD per 1K tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cached?: number;
+  reasoning?: number;
+  // Batch API rates, where the model has them
+  batch?: { input: number; output: number; cached?: number };
 }
 
 export interface CostLimits {
@@ -16,18 +46,114 @@ export interface GPT5Response {
   text: string;
   usage: TokenUsage;
   raw: any;
+  // Responses API id, usable as previous_response_id; absent when chat completions answered
+  responseId?: string;
+  // Model that actually produced the text
+  model?: string;
+  // Set when a different model answered than the one requested
+  fallback?: FallbackInfo;
+  // Function calls requested by the model (Responses API only)
+  toolCalls?: FunctionToolCall[];
+  // The model stopped early (output token limit or content filter), so the text is cut short
+  incomplete?: boolean;
+}
+
+export interface CreateResponseParams {
+  input: string | any[];
+  // Responses API model for this request; defaults to the primary model
+  model?: string;
+  instructions?: string;
+  temperature?: number;
+  reasoning?: { effort: ReasoningEffort };
+  verbosity?: Verbosity;
+  maxTokens?: number;
+  stream?: boolean;
+  onProgress?: (event: StreamProgressEvent) => void;
+  responseFormat?: ResponseFormat;
+  tools?: LocalToolDefinition[];
+  // Continue from a stored response; input then only carries the new turn
+  previousResponseId?: string;
+  // Aborts the request, including retries and fallbacks (MCP cancellation)
+  signal?: AbortSignal;
+  // Images and PDFs sent alongside the last user message
+  attachments?: Attachment[];
+}
+
+export type BackgroundResponseStatus = 'queued' | 'in_progress' | 'completed' | 'incomplete' | 'failed' | 'cancelled';
+
+export interface BackgroundResponse {
+  status: BackgroundResponseStatus;
+  // Present once the server reports usage for it
+  response?: GPT5Response;
+  error?: string;
+}
+
+export type BatchStatus = 'validating' | 'in_progress' | 'finalizing' | 'completed' | 'failed' | 'expired' | 'cancelling' | 'cancelled';
+
+export interface BatchItemResult {
+  customId: string;
+  text?: string;
+  model?: string;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+export interface BatchState {
+  id: string;
+  status: BatchStatus;
+  requestCounts: { total: number; completed: number; failed: number };
+  // Read from the output and error files once the batch has ended
+  results?: BatchItemResult[];
+  error?: string;
+}
+
+export interface Attachment {
+  kind: 'image' | 'file';
+  mimeType: string;
+  // Base64, without a data: URL prefix
+  data: string;
+  name: string;
+  // Input tokens the model is expected to bill for it
+  estimatedTokens: number;
+}
+
+export interface LocalToolDefinition {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+  strict?: boolean;
+}
+
+export interface FunctionToolCall {
+  callId: string;
+  name: string;
+  arguments: string;
 }
 
 export interface Conversation {
   id: string;
   messages: ConversationMessage[];
   metadata: ConversationMetadata;
+  // Messages folded into the rolling summary, oldest first, so nothing is lost
+  archive?: ConversationMessage[];
 }
 
 export interface ConversationMessage {
   role: 'user' | 'assistant' | 'developer';
   content: string;
   timestamp: Date;
+  // Earlier versions replaced by regenerate_response or edit_message, oldest first
+  alternates?: MessageAlternate[];
+  // Always sent as context and never trimmed from history
+  pinned?: boolean;
+  // The rolling summary of older turns; always sent as context
+  summary?: boolean;
+}
+
+export interface MessageAlternate {
+  content: string;
+  timestamp: Date;
 }
 
 export interface ConversationMetadata {
@@ -37,12 +163,63 @@ export interface ConversationMetadata {
   tokenCount: number;
   topic?: string;
   budgetLimit?: number;
+  // Message-count cap on the context window, applied on top of the token budget
   contextLimit?: number;
+  // Token ceiling for the context window (default MAX_CONVERSATION_CONTEXT_TOKENS)
+  contextTokenLimit?: number;
+  // Messages dropped from history by MAX_CONVERSATION_HISTORY so far
+  trimmedMessages?: number;
+  // Fold older turns into the rolling summary once the history exceeds this many tokens (0: never)
+  autoCompactTokens?: number;
+  compactions?: number;
+  // Part of totalCost spent on summaries
+  summaryCost?: number;
+  // Chain turns server-side with previous_response_id instead of replaying history
+  serverState?: boolean;
+  lastResponseId?: string;
+  verbosity?: Verbosity;
+  // Set on forks: the conversation this one was copied from, and the index of the last message copied
+  parentId?: string;
+  branchPoint?: number;
+}
+
+// The history selected for one turn (ConversationManager.selectContext)
+export interface ContextWindow {
+  // API format, oldest first; developer instructions are sent separately and not listed
+  messages: any[];
+  // Tokens of everything kept, instructions and pinned messages included
+  tokens: number;
+  // Older messages left out to stay within the budget
+  dropped: number;
+  droppedTokens: number;
+}
+
+// One node of a conversation's branch tree (get_conversation_branches)
+export interface ConversationBranch {
+  id: string;
+  topic?: string;
+  branchPoint?: number;
+  messageCount: number;
+  // Spent in this branch only; what the parent spent before the fork is not included
+  totalCost: number;
+  lastActive: Date;
+  children: ConversationBranch[];
 }
 
 export interface CostReport {
   period: string;
   totalCost: number;
+  cacheSavings: number;
+  // Requests answered by a fallback model, by cause
+  fallbacks: {
+    count: number;
+    byKind: Partial<Record<FallbackKind, number>>;
+  };
+  // Consults answered from the response cache, and what they would have cost
+  responseCache: {
+    hits: number;
+    costSaved: number;
+  };
   breakdown: CostBreakdown[];
   limits: CostLimits;
   remaining: {
@@ -54,20 +231,37 @@ export interface CostReport {
 export interface CostBreakdown {
   date: string;
   cost: number;
+  cacheSavings?: number;
   tokenUsage: {
     input: number;
     output: number;
+    cached?: number;
     reasoning?: number;
   };
 }
 
 export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
 
+export type Verbosity = 'low' | 'medium' | 'high';
+
+// Which Responses API failures may be answered by a chat-completions model instead
+export type FallbackPolicy = 'never' | 'model_unavailable' | 'transient';
+
+export type FallbackKind = 'model_unavailable' | 'transient';
+
+export interface FallbackInfo {
+  from: string;
+  to: string;
+  kind: FallbackKind;
+  reason: string;
+}
+
 export interface ConsultParams {
   prompt: string;
   context?: string;
   temperature?: number;
   reasoning_effort?: ReasoningEffort;
+  verbosity?: Verbosity;
   max_tokens?: number;
   task_budget?: number;
 }
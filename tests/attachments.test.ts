@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { extractAttachments, estimateImageTokens, readImageSize, toChatContent, toResponsesContent } from '../src/attachments';
+
+// Just enough of a PNG for the header to be read
+function pngHeader(width: number, height: number): Buffer {
+  const bytes = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes, 0);
+  bytes.writeUInt32BE(13, 8);
+  bytes.write('IHDR', 12, 'ascii');
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return bytes;
+}
+
+function jpegHeader(width: number, height: number): Buffer {
+  return Buffer.from([
+    0xff, 0xd8,
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+    0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x01, 0x11, 0x00
+  ]);
+}
+
+describe('readImageSize', () => {
+  it('should read PNG and JPEG dimensions', () => {
+    expect(readImageSize(pngHeader(1280, 720))).toEqual({ width: 1280, height: 720 });
+    expect(readImageSize(jpegHeader(800, 600))).toEqual({ width: 800, height: 600 });
+  });
+
+  it('should return undefined for unknown formats', () => {
+    expect(readImageSize(Buffer.from('not an image at all'))).toBeUndefined();
+  });
+});
+
+describe('estimateImageTokens', () => {
+  it('should charge a base plus 170 tokens per 512px tile', () => {
+    expect(estimateImageTokens({ width: 512, height: 512 })).toBe(85 + 170);
+    // 1024x1024 is scaled to 768x768: 2x2 tiles
+    expect(estimateImageTokens({ width: 1024, height: 1024 })).toBe(85 + 170 * 4);
+  });
+
+  it('should fit large images within 2048px before tiling', () => {
+    // 4096x2048 -> 2048x1024 -> 1536x768: 3x2 tiles
+    expect(estimateImageTokens({ width: 4096, height: 2048 })).toBe(85 + 170 * 6);
+  });
+
+  it('should assume the worst case when the size is unknown', () => {
+    expect(estimateImageTokens(undefined)).toBe(85 + 170 * 8);
+  });
+});
+
+describe('extractAttachments', () => {
+  afterEach(() => {
+    delete process.env.ATTACHMENT_MAX_BYTES;
+    delete process.env.ATTACHMENT_MAX_COUNT;
+  });
+
+  it('should collect MCP images and blob resources', () => {
+    const png = pngHeader(512, 512).toString('base64');
+    const pdf = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Pages >>\n2 0 obj << /Type /Page >>\n3 0 obj << /Type /Page >>').toString('base64');
+
+    const { attachments, skipped } = extractAttachments({
+      content: [
+        { type: 'image', data: png, mimeType: 'image/png' },
+        { type: 'text', text: 'ignored here' },
+        { type: 'resource', resource: { uri: 'file:///design.pdf', mimeType: 'application/pdf', blob: pdf } }
+      ]
+    });
+
+    expect(skipped).toEqual([]);
+    expect(attachments).toEqual([
+      { kind: 'image', mimeType: 'image/png', data: png, name: 'image', estimatedTokens: 255 },
+      { kind: 'file', mimeType: 'application/pdf', data: pdf, name: 'file:///design.pdf', estimatedTokens: 3000 }
+    ]);
+  });
+
+  it('should sniff the type when none is given and strip data URLs', () => {
+    const jpeg = jpegHeader(100, 100).toString('base64');
+
+    const { attachments } = extractAttachments({ resources: [{ name: 'shot', blob: `data:image/jpeg;base64,${jpeg}` }] });
+
+    expect(attachments[0]).toMatchObject({ kind: 'image', mimeType: 'image/jpeg', data: jpeg });
+  });
+
+  it('should skip oversized, unsupported and excess attachments', () => {
+    process.env.ATTACHMENT_MAX_BYTES = '40';
+    process.env.ATTACHMENT_MAX_COUNT = '1';
+    const small = pngHeader(10, 10).toString('base64');
+
+    const { attachments, skipped } = extractAttachments({
+      content: [
+        { type: 'image', data: Buffer.alloc(64).toString('base64'), mimeType: 'image/png', name: 'big.png' },
+        { type: 'resource', resource: { uri: 'file:///a.zip', mimeType: 'application/zip', blob: small } },
+        { type: 'image', data: small, mimeType: 'image/png' },
+        { type: 'image', data: small, mimeType: 'image/png', name: 'extra.png' }
+      ]
+    });
+
+    expect(attachments).toHaveLength(1);
+    expect(skipped).toEqual([
+      'big.png: 64 bytes exceeds the 40 byte limit',
+      'file:///a.zip: unsupported type application/zip',
+      'extra.png: over the limit of 1 attachments'
+    ]);
+  });
+});
+
+describe('content parts', () => {
+  const image = { kind: 'image' as const, mimeType: 'image/png', data: 'AAAA', name: 'shot.png', estimatedTokens: 255 };
+  const pdf = { kind: 'file' as const, mimeType: 'application/pdf', data: 'BBBB', name: 'spec.pdf', estimatedTokens: 1500 };
+
+  it('should map attachments to Responses API input parts', () => {
+    expect(toResponsesContent(image)).toEqual({ type: 'input_image', image_url: 'data:image/png;base64,AAAA', detail: 'auto' });
+    expect(toResponsesContent(pdf)).toEqual({ type: 'input_file', filename: 'spec.pdf', file_data: 'data:application/pdf;base64,BBBB' });
+  });
+
+  it('should only map images for chat completions', () => {
+    expect(toChatContent(image)).toEqual({ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } });
+    expect(toChatContent(pdf)).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { BatchManager } from '../src/batch';
+import { GPT5Client } from '../src/openai-client';
+import { OpenAIProvider } from '../src/providers';
+import { PricingRegistry } from '../src/pricing';
+import { CostManager } from '../src/cost-manager';
+
+/**
+ * Stand-in for the Files and Batches endpoints. A batch stays in_progress until
+ * `finish` runs it: every request gets an echo answer except prompts containing "FAIL".
+ */
+function createBatchServer() {
+  const files = new Map<string, string>();
+  const batches = new Map<string, any>();
+  let nextId = 1;
+
+  const finish = (batchId: string) => {
+    const batch = batches.get(batchId);
+    const outputs: string[] = [];
+    const errors: string[] = [];
+    for (const line of files.get(batch.input_file_id)!.split('\n')) {
+      const request = JSON.parse(line);
+      if (request.body.input.includes('FAIL')) {
+        errors.push(JSON.stringify({ custom_id: request.custom_id, response: null, error: { code: 'server_error', message: 'Item failed' } }));
+        continue;
+      }
+      outputs.push(JSON.stringify({
+        custom_id: request.custom_id,
+        response: {
+          status_code: 200,
+          body: {
+            model: request.body.model,
+            output: [{ type: 'message', content: [{ type: 'output_text', text: `echo: ${request.body.input}` }] }],
+            usage: { input_tokens: 1000, output_tokens: 1000, total_tokens: 2000 }
+          }
+        },
+        error: null
+      }));
+    }
+    files.set('file-out', outputs.join('\n'));
+    files.set('file-err', errors.join('\n'));
+    Object.assign(batch, {
+      status: 'completed',
+      output_file_id: 'file-out',
+      error_file_id: errors.length ? 'file-err' : null,
+      request_counts: { total: outputs.length + errors.length, completed: outputs.length, failed: errors.length }
+    });
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const send = (payload: any) => {
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(payload));
+      };
+      if (req.method === 'POST' && req.url === '/v1/files') {
+        // Pull the JSONL lines out of the multipart upload
+        const jsonl = body.split(/\r?\n/).filter(line => line.startsWith('{"custom_id"')).join('\n');
+        const id = `file-${nextId++}`;
+        files.set(id, jsonl);
+        return send({ id, object: 'file', purpose: 'batch' });
+      }
+      if (req.method === 'POST' && req.url === '/v1/batches') {
+        const params = JSON.parse(body);
+        const id = `batch_${nextId++}`;
+        const batch = { id, object: 'batch', endpoint: params.endpoint, input_file_id: params.input_file_id, status: 'in_progress', request_counts: { total: 0, completed: 0, failed: 0 } };
+        batches.set(id, batch);
+        return send(batch);
+      }
+      const batchMatch = req.url?.match(/^\/v1\/batches\/([^/]+)$/);
+      if (req.method === 'GET' && batchMatch) {
+        return send(batches.get(batchMatch[1]));
+      }
+      const fileMatch = req.url?.match(/^\/v1\/files\/([^/]+)\/content$/);
+      if (req.method === 'GET' && fileMatch) {
+        return res.end(files.get(fileMatch[1]));
+      }
+      res.statusCode = 404;
+      send({ error: { message: `No route for ${req.method} ${req.url}` } });
+    });
+  });
+
+  return { server, files, batches, finish };
+}
+
+describe('BatchManager', () => {
+  const standIn = createBatchServer();
+  let client: GPT5Client;
+  let dataDir: string;
+  let recordUsage: jest.Mock<(...args: any[]) => Promise<any>>;
+  let costManager: CostManager;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => standIn.server.listen(0, '127.0.0.1', resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+    const pricing = PricingRegistry.load(path.join(__dirname, '../config/pricing.json'));
+    client = new GPT5Client(new OpenAIProvider({ apiKey: 'test', baseURL: `http://127.0.0.1:${port}/v1`, pricing }));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => standIn.server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gpt5-batch-'));
+    recordUsage = jest.fn(async () => ({}));
+    costManager = { recordUsage } as unknown as CostManager;
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should upload one Responses request per item keyed by the item id', async () => {
+    const batches = new BatchManager(client, costManager, dataDir, 0);
+
+    const record = await batches.submit('task_1', [
+      { id: 'a.ts', params: { input: 'Review a.ts', reasoning: { effort: 'low' }, maxTokens: 1500 } },
+      { id: 'b.ts', params: { input: 'Review b.ts', reasoning: { effort: 'low' }, maxTokens: 1500 } }
+    ], 0.05);
+
+    const batch = standIn.batches.get(record.id);
+    expect(batch.endpoint).toBe('/v1/responses');
+    const lines = standIn.files.get(batch.input_file_id)!.split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([
+      { custom_id: 'a.ts', method: 'POST', url: '/v1/responses', body: expect.objectContaining({ model: 'gpt-5', input: 'Review a.ts', max_output_tokens: 1500 }) },
+      { custom_id: 'b.ts', method: 'POST', url: '/v1/responses', body: expect.objectContaining({ model: 'gpt-5', input: 'Review b.ts', max_output_tokens: 1500 }) }
+    ]);
+    expect(record).toMatchObject({ status: 'validating', itemIds: ['a.ts', 'b.ts'], estimatedCost: 0.05 });
+  });
+
+  it('should map results back to item ids and charge batch rates once', async () => {
+    const batches = new BatchManager(client, costManager, dataDir, 0);
+    const record = await batches.submit('task_1', [
+      { id: 'one', params: { input: 'first' } },
+      { id: 'two', params: { input: 'FAIL second' } },
+      { id: 'three', params: { input: 'third' } }
+    ], 0.05);
+
+    expect((await batches.get(record.id))?.status).toBe('in_progress');
+    standIn.finish(record.id);
+    await batches.get(record.id);
+    await batches.get(record.id);
+
+    expect(record.status).toBe('completed');
+    expect(record.results?.map(result => [result.customId, result.text, result.error])).toEqual([
+      ['one', 'echo: first', undefined],
+      ['two', undefined, 'Item failed'],
+      ['three', 'echo: third', undefined]
+    ]);
+    // gpt-5 batch rates: 1K input at $0.000625 + 1K output at $0.005, per answered item
+    expect(record.usage?.estimatedCost).toBeCloseTo(2 * 0.005625, 4);
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsage).toHaveBeenCalledWith('task_1', expect.objectContaining({ inputTokens: 2000, outputTokens: 2000 }), { model: 'gpt-5' });
+  });
+
+  it('should fail only the item whose result line cannot be read', async () => {
+    const batches = new BatchManager(client, costManager, dataDir, 0);
+    const record = await batches.submit('task_1', [
+      { id: 'one', params: { input: 'first' } },
+      { id: 'two', params: { input: 'second' } }
+    ], 0.05);
+    standIn.finish(record.id);
+    const [first, second] = standIn.files.get('file-out')!.split('\n');
+    standIn.files.set('file-out', [first, second.slice(0, 40)].join('\n'));
+
+    await batches.get(record.id);
+
+    expect(record.status).toBe('completed');
+    expect(record.results?.map(result => [result.customId, result.text, result.error])).toEqual([
+      ['one', 'echo: first', undefined],
+      ['two', undefined, expect.stringContaining('Unreadable result line')]
+    ]);
+    expect(recordUsage).toHaveBeenCalledWith('task_1', expect.objectContaining({ inputTokens: 1000, outputTokens: 1000 }), { model: 'gpt-5' });
+  });
+
+  it('should pick up unfinished batches after a restart', async () => {
+    const first = new BatchManager(client, costManager, dataDir, 0);
+    const record = await first.submit('task_1', [{ id: 'only', params: { input: 'hello' } }], 0.01);
+    await first.flush();
+
+    standIn.finish(record.id);
+    const second = new BatchManager(client, costManager, dataDir, 0);
+    const resumed = await second.get(record.id);
+
+    expect(resumed?.status).toBe('completed');
+    expect(resumed?.results).toEqual([expect.objectContaining({ customId: 'only', text: 'echo: hello' })]);
+  });
+
+  it('should reject duplicate item ids before uploading anything', async () => {
+    const batches = new BatchManager(client, costManager, dataDir, 0);
+    const before = standIn.batches.size;
+
+    await expect(batches.submit('task_1', [
+      { id: 'dup', params: { input: 'a' } },
+      { id: 'dup', params: { input: 'b' } }
+    ], 0)).rejects.toThrow('unique');
+    expect(standIn.batches.size).toBe(before);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CassetteTransport } from '../src/cassette';
+import { CassetteMissError } from '../src/errors';
+import { GPT5Client } from '../src/openai-client';
+import { OpenAIProvider } from '../src/providers';
+import { PricingRegistry } from '../src/pricing';
+
+const pricing = PricingRegistry.load(path.join(__dirname, '../config/pricing.json'));
+
+const completedResponse = (text: string) => ({
+  id: 'resp_1',
+  object: 'response',
+  model: 'gpt-5',
+  status: 'completed',
+  output: [{ type: 'message', id: 'msg_1', role: 'assistant', content: [{ type: 'output_text', text, annotations: [] }] }],
+  usage: { input_tokens: 12, output_tokens: 3, total_tokens: 15 }
+});
+
+/**
+ * Stand-in API that misbehaves on purpose: prompts containing "busy" get one 429 first,
+ * "down" always gets a 500 from the Responses API, and streamed requests get SSE events.
+ */
+function createApiServer() {
+  const seen = new Set<string>();
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const params = body ? JSON.parse(body) : {};
+      const input = JSON.stringify(params.input ?? params.messages);
+      res.setHeader('content-type', 'application/json');
+      res.setHeader('set-cookie', 'session=secret');
+
+      if (req.url === '/v1/chat/completions') {
+        return res.end(JSON.stringify({
+          id: 'chatcmpl_1', object: 'chat.completion', model: params.model,
+          choices: [{ index: 0, message: { role: 'assistant', content: 'fallback answer' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 }
+        }));
+      }
+      if (input.includes('busy') && !seen.has(input)) {
+        seen.add(input);
+        res.statusCode = 429;
+        return res.end(JSON.stringify({ error: { message: 'Rate limit reached', type: 'requests' } }));
+      }
+      if (input.includes('down')) {
+        res.statusCode = 500;
+        return res.end(JSON.stringify({ error: { message: 'The server had an error', type: 'server_error' } }));
+      }
+      if (params.stream) {
+        res.setHeader('content-type', 'text/event-stream');
+        const events = [
+          { type: 'response.created', response: { ...completedResponse(''), status: 'in_progress', output: [], usage: null } },
+          { type: 'response.output_item.added', output_index: 0, item: { type: 'message', id: 'msg_1', role: 'assistant', content: [] } },
+          { type: 'response.content_part.added', output_index: 0, content_index: 0, item_id: 'msg_1', part: { type: 'output_text', text: '', annotations: [] } },
+          { type: 'response.output_text.delta', output_index: 0, content_index: 0, item_id: 'msg_1', delta: 'Hello ' },
+          { type: 'response.output_text.delta', output_index: 0, content_index: 0, item_id: 'msg_1', delta: 'stream' },
+          { type: 'response.completed', response: completedResponse('Hello stream') }
+        ];
+        return res.end(events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+      }
+      return res.end(JSON.stringify(completedResponse('Hello from the API')));
+    });
+  });
+  return server;
+}
+
+describe('CassetteTransport', () => {
+  const server = createApiServer();
+  let baseURL: string;
+  let dir: string;
+  let cassette: string;
+
+  // Records through the stand-in server, then replays the same call with no server behind it
+  const recordThenReplay = async (call: (client: GPT5Client) => Promise<any>) => {
+    const recorder = new CassetteTransport(cassette, 'record');
+    const recorded = await call(new GPT5Client(new OpenAIProvider({ apiKey: 'sk-secret', baseURL, pricing, transport: { fetch: recorder.fetch, maxRetries: 0 } })));
+    await recorder.flush();
+
+    const player = new CassetteTransport(cassette, 'replay');
+    const replayed = await call(new GPT5Client(new OpenAIProvider({ apiKey: 'other-key', baseURL: 'http://offline.invalid/v1', pricing, transport: { fetch: player.fetch, maxRetries: 0 } })));
+    return { recorded, replayed, player };
+  };
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gpt5-cassette-'));
+    cassette = path.join(dir, 'cassette.json');
+    process.env.OPENAI_RETRY_BASE_DELAY_MS = '1';
+  });
+
+  afterEach(async () => {
+    delete process.env.OPENAI_RETRY_BASE_DELAY_MS;
+    delete process.env.OPENAI_RETRY_COUNT;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay a response offline with the same text and cost', async () => {
+    const { recorded, replayed, player } = await recordThenReplay(client => client.createResponse({ input: 'hi' }));
+
+    expect(replayed.text).toBe('Hello from the API');
+    expect(replayed.usage).toEqual(recorded.usage);
+    expect(player.unused()).toEqual([]);
+  });
+
+  it('should keep API keys and cookies out of the cassette', async () => {
+    await recordThenReplay(client => client.createResponse({ input: 'hi' }));
+
+    const contents = await fs.readFile(cassette, 'utf-8');
+    expect(contents).not.toContain('sk-secret');
+    expect(contents).not.toContain('session=secret');
+    expect(JSON.parse(contents).interactions[0].request).toMatchObject({ method: 'POST', path: '/v1/responses', body: { input: 'hi' } });
+  });
+
+  it('should replay a 429 followed by a retry', async () => {
+    const { replayed, player } = await recordThenReplay(client => client.createResponse({ input: 'busy' }));
+
+    const interactions = JSON.parse(await fs.readFile(cassette, 'utf-8')).interactions;
+    expect(interactions.map((interaction: any) => interaction.response.status)).toEqual([429, 200]);
+    expect(replayed.text).toBe('Hello from the API');
+    expect(player.unused()).toEqual([]);
+  });
+
+  it('should replay a 500 and the chat fallback it triggered', async () => {
+    process.env.OPENAI_RETRY_COUNT = '0';
+    const { replayed } = await recordThenReplay(client => client.createResponse({ input: 'down' }));
+
+    expect(replayed.text).toBe('fallback answer');
+    expect(replayed.fallback).toMatchObject({ from: 'gpt-5', kind: 'transient' });
+  });
+
+  it('should replay streamed events', async () => {
+    const deltas: string[] = [];
+    const { replayed } = await recordThenReplay(client => client.createResponse({
+      input: 'stream please',
+      stream: true,
+      onProgress: event => { if (event.type === 'text_delta') deltas.push(event.text); }
+    }));
+
+    expect(replayed.text).toBe('Hello stream');
+    expect(replayed.usage.inputTokens).toBe(12);
+    expect(replayed.usage.estimated).toBeFalsy();
+    expect(deltas).toEqual(['Hello ', 'stream', 'Hello ', 'stream']);
+  });
+
+  it('should refuse requests the cassette does not have', async () => {
+    await fs.writeFile(cassette, JSON.stringify({ version: 1, interactions: [] }));
+    const player = new CassetteTransport(cassette, 'replay');
+
+    await expect(player.fetch('https://api.openai.com/v1/responses', { method: 'POST', body: '{"input":"hi"}' }))
+      .rejects.toBeInstanceOf(CassetteMissError);
+  });
+});
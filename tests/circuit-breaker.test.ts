@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CircuitBreakerRegistry } from '../src/circuit-breaker';
+
+describe('CircuitBreakerRegistry', () => {
+  let now: number;
+  let breaker: CircuitBreakerRegistry;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    breaker = new CircuitBreakerRegistry(3, 60000, () => now);
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.recordFailure('gpt-5', 'responses', 'transient', '503 Service Unavailable');
+    }
+  };
+
+  it('should stay closed below the failure threshold', () => {
+    fail(2);
+
+    expect(breaker.check('gpt-5', 'responses').allowed).toBe(true);
+  });
+
+  it('should open after consecutive failures and explain why', () => {
+    fail(3);
+
+    const check = breaker.check('gpt-5', 'responses');
+    expect(check.allowed).toBe(false);
+    if (!check.allowed) {
+      expect(check.kind).toBe('transient');
+      expect(check.reason).toContain('503 Service Unavailable');
+    }
+  });
+
+  it('should reset the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess('gpt-5', 'responses');
+    fail(2);
+
+    expect(breaker.check('gpt-5', 'responses').allowed).toBe(true);
+  });
+
+  it('should let a single probe through after the cooldown', () => {
+    fail(3);
+    now += 60000;
+
+    expect(breaker.check('gpt-5', 'responses').allowed).toBe(true);
+    expect(breaker.check('gpt-5', 'responses').allowed).toBe(false);
+    expect(breaker.getStatus()[0].state).toBe('half_open');
+  });
+
+  it('should close after a successful probe and re-open after a failed one', () => {
+    fail(3);
+    now += 60000;
+    breaker.check('gpt-5', 'responses');
+    breaker.recordSuccess('gpt-5', 'responses');
+    expect(breaker.getStatus()[0].state).toBe('closed');
+
+    fail(3);
+    now += 60000;
+    breaker.check('gpt-5', 'responses');
+    fail(1);
+    expect(breaker.getStatus()[0].state).toBe('open');
+    expect(breaker.check('gpt-5', 'responses').allowed).toBe(false);
+  });
+
+  it('should track models and endpoints separately', () => {
+    fail(3);
+
+    expect(breaker.check('gpt-5', 'chat').allowed).toBe(true);
+    expect(breaker.check('gpt-4o', 'responses').allowed).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ConversationStore, CONVERSATION_SCHEMA_VERSION, deserializeConversation } from '../src/conversation-store';
+import { ConversationManager } from '../src/conversation';
+
+describe('ConversationStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gpt5-conversations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should restore conversations in a new manager after a restart', async () => {
+    const before = new ConversationManager(5, 10, new ConversationStore(dir));
+    const id = before.startConversation('Design thread', 'Be concise', 2);
+    before.addMessage(id, 'user', 'Queue or log?');
+    before.addMessage(id, 'assistant', 'Log.');
+    before.updateMetadata(id, { totalCost: 0.25, tokenCount: 40 });
+    await before.flush();
+
+    const after = new ConversationManager(5, 10, new ConversationStore(dir));
+    expect(await after.load()).toBe(1);
+
+    const restored = after.getConversation(id);
+    expect(restored?.messages.map(message => message.content)).toEqual(['Be concise', 'Queue or log?', 'Log.']);
+    expect(restored?.messages[1].timestamp).toBeInstanceOf(Date);
+    expect(restored?.metadata).toMatchObject({ topic: 'Design thread', budgetLimit: 2, totalCost: 0.25, tokenCount: 40 });
+    expect(after.getInstructions(id)).toBe('Be concise');
+  });
+
+  it('should restore alternates of regenerated replies', async () => {
+    const before = new ConversationManager(5, 10, new ConversationStore(dir));
+    const id = before.startConversation('Topic');
+    before.addMessage(id, 'user', 'Question');
+    before.addMessage(id, 'assistant', 'Answer');
+    before.replaceLastReply(id, 'Better answer');
+    await before.flush();
+
+    const after = new ConversationManager(5, 10, new ConversationStore(dir));
+    await after.load();
+
+    const alternate = after.getConversation(id)?.messages[1].alternates?.[0];
+    expect(alternate?.content).toBe('Answer');
+    expect(alternate?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should restore the archive of a compacted conversation', async () => {
+    const before = new ConversationManager(5, 10, new ConversationStore(dir));
+    const id = before.startConversation('Topic');
+    before.addMessage(id, 'user', 'Question');
+    before.addMessage(id, 'assistant', 'Answer');
+    before.addMessage(id, 'user', 'Follow-up');
+    before.compact(id, 'Summary', before.getCompactionCandidates(id, 1));
+    await before.flush();
+
+    const after = new ConversationManager(5, 10, new ConversationStore(dir));
+    await after.load();
+
+    const restored = after.getConversation(id)!;
+    expect(restored.messages[0]).toMatchObject({ content: 'Summary', summary: true });
+    expect(restored.archive?.map(message => message.content)).toEqual(['Question', 'Answer']);
+    expect(restored.archive?.[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should write behind instead of on every change', async () => {
+    const manager = new ConversationManager(5, 10, new ConversationStore(dir, 60_000));
+    const id = manager.startConversation('Topic');
+    manager.addMessage(id, 'user', 'Hello');
+
+    expect(await fs.readdir(dir)).toEqual([]);
+
+    await manager.flush();
+    expect(await fs.readdir(dir)).toEqual([`${id}.json`]);
+  });
+
+  it('should delete the file of a deleted or evicted conversation', async () => {
+    const manager = new ConversationManager(2, 10, new ConversationStore(dir));
+    const first = manager.startConversation('First');
+    const second = manager.startConversation('Second');
+    await manager.flush();
+
+    manager.deleteConversation(second);
+    manager.startConversation('Third');
+    manager.startConversation('Fourth');
+    await manager.flush();
+
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(2);
+    expect(files).not.toContain(`${first}.json`);
+    expect(files).not.toContain(`${second}.json`);
+  });
+
+  it('should store the export format with a schema version', async () => {
+    const manager = new ConversationManager(5, 10, new ConversationStore(dir));
+    const id = manager.startConversation('Topic');
+    await manager.flush();
+
+    const stored = await fs.readFile(path.join(dir, `${id}.json`), 'utf-8');
+    expect(stored).toBe(manager.exportConversation(id));
+    expect(JSON.parse(stored).version).toBe(CONVERSATION_SCHEMA_VERSION);
+  });
+
+  it('should skip files it cannot read and keep loading the rest', async () => {
+    const manager = new ConversationManager(5, 10, new ConversationStore(dir));
+    manager.startConversation('Good');
+    await manager.flush();
+    await fs.writeFile(path.join(dir, 'conv_broken.json'), '{ not json');
+    await fs.writeFile(path.join(dir, 'conv_future.json'), JSON.stringify({ version: CONVERSATION_SCHEMA_VERSION + 1, id: 'conv_future' }));
+
+    const restarted = new ConversationManager(5, 10, new ConversationStore(dir));
+    expect(await restarted.load()).toBe(1);
+  });
+});
+
+describe('deserializeConversation', () => {
+  it('should read exports written before the schema version existed', () => {
+    const conversation = deserializeConversation(JSON.stringify({
+      id: 'conv_old',
+      messages: [{ role: 'user', content: 'Hi', timestamp: '2025-08-01T10:00:00.000Z' }],
+      metadata: { created: '2025-08-01T10:00:00.000Z', lastActive: '2025-08-01T10:00:00.000Z', totalCost: 0, tokenCount: 0 }
+    }));
+
+    expect(conversation.messages[0].timestamp).toEqual(new Date('2025-08-01T10:00:00.000Z'));
+    expect(conversation).not.toHaveProperty('version');
+  });
+});
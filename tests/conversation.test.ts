@@ -78,6 +78,21 @@ describe('ConversationManager', () => {
       expect(conversation?.messages).toHaveLength(10);
       // Developer instructions should be preserved
       expect(conversation?.messages[0].role).toBe('developer');
+      expect(conversation?.metadata.trimmedMessages).toBe(3);
+    });
+
+    it('should never trim pinned messages', () => {
+      const id = manager.startConversation('Test', 'Instructions');
+      manager.addMessage(id, 'user', 'Keep me');
+      manager.pinMessage(id, 1);
+
+      for (let i = 0; i < 12; i++) {
+        manager.addMessage(id, 'user', `Message ${i}`);
+      }
+
+      const messages = manager.getConversation(id)!.messages;
+      expect(messages).toHaveLength(10);
+      expect(messages.slice(0, 3).map(message => message.content)).toEqual(['Instructions', 'Keep me', 'Message 4']);
     });
   });
 
@@ -126,6 +141,75 @@ describe('ConversationManager', () => {
     });
   });
 
+  describe('selectContext', () => {
+    // Each 'word ' repeat is one token
+    const words = (count: number) => 'word '.repeat(count).trim();
+
+    it('should add messages newest-first until the token budget is reached', () => {
+      const id = manager.startConversation('Test');
+      manager.addMessage(id, 'user', words(50));
+      manager.addMessage(id, 'assistant', words(20));
+      manager.addMessage(id, 'user', words(20));
+
+      const context = manager.selectContext(id, { maxTokens: 45 });
+
+      expect(context.messages.map(message => message.role)).toEqual(['assistant', 'user']);
+      expect(context).toMatchObject({ tokens: 40, dropped: 1, droppedTokens: 50 });
+    });
+
+    it('should stop at an oversized message instead of skipping over it', () => {
+      const id = manager.startConversation('Test');
+      manager.addMessage(id, 'user', 'short');
+      manager.addMessage(id, 'assistant', words(500));
+      manager.addMessage(id, 'user', 'latest');
+
+      const context = manager.selectContext(id, { maxTokens: 100 });
+
+      expect(context.messages).toEqual([{ role: 'user', content: 'latest' }]);
+      expect(context.dropped).toBe(2);
+    });
+
+    it('should always keep instructions, pinned messages and the newest message', () => {
+      const id = manager.startConversation('Test', words(30));
+      manager.addMessage(id, 'user', 'The schema is fixed');
+      manager.pinMessage(id, 1);
+      manager.addMessage(id, 'assistant', words(10));
+      manager.addMessage(id, 'user', words(80));
+
+      const context = manager.selectContext(id, { maxTokens: 50 });
+
+      expect(context.messages.map(message => message.content)).toEqual(['The schema is fixed', words(80)]);
+      expect(context.dropped).toBe(1);
+      expect(context.tokens).toBeGreaterThan(50);
+    });
+
+    it('should honor the conversation token budget and message cap', () => {
+      const id = manager.startConversation('Test');
+      for (let i = 0; i < 6; i++) {
+        manager.addMessage(id, 'user', words(10));
+      }
+
+      manager.setOptions(id, { contextTokenLimit: 35 });
+      expect(manager.selectContext(id).messages).toHaveLength(3);
+
+      manager.setOptions(id, { contextTokenLimit: 1000, contextLimit: 2 });
+      expect(manager.selectContext(id).messages).toHaveLength(2);
+    });
+
+    it('should select history up to a message and append a replacement', () => {
+      const id = manager.startConversation('Test');
+      manager.addMessage(id, 'user', 'Question');
+      manager.addMessage(id, 'assistant', 'Answer');
+      manager.addMessage(id, 'user', 'Follow-up');
+
+      expect(manager.selectContext(id, { upTo: 2, newMessage: 'Rephrased follow-up' }).messages).toEqual([
+        { role: 'user', content: 'Question' },
+        { role: 'assistant', content: 'Answer' },
+        { role: 'user', content: 'Rephrased follow-up' }
+      ]);
+    });
+  });
+
   describe('getInstructions', () => {
     it('should return developer instructions if present', () => {
       const id = manager.startConversation('Test', 'Be helpful');
@@ -157,6 +241,68 @@ describe('ConversationManager', () => {
     });
   });
 
+  describe('checkBudget', () => {
+    it('should allow anything without a budget limit', () => {
+      const id = manager.startConversation('Test');
+
+      expect(manager.checkBudget(id, 100, false, 10)).toEqual({ allowed: true });
+    });
+
+    it('should refuse a turn that only fits without the summary it needs first', () => {
+      const id = manager.startConversation('Test', undefined, 1);
+      manager.updateMetadata(id, { totalCost: 0.7 });
+      const turn = 0.2;
+      const summary = 0.15;
+
+      expect(manager.checkBudget(id, turn, false, 10)).toMatchObject({ allowed: true });
+      expect(manager.checkBudget(id, turn + summary, false, 10)).toMatchObject({ allowed: false, needsConfirmation: true });
+      expect(manager.checkBudget(id, turn + summary, true, 10)).toMatchObject({ allowed: true });
+    });
+
+    it('should ask for confirmation once less than 10% of the budget is left', () => {
+      const id = manager.startConversation('Test', undefined, 1);
+      manager.updateMetadata(id, { totalCost: 0.95 });
+
+      expect(manager.checkBudget(id, 0.01, false, 10)).toMatchObject({ allowed: false, needsConfirmation: true });
+    });
+
+    it('should refuse extreme overspend even when confirmed', () => {
+      const id = manager.startConversation('Test', undefined, 1);
+      manager.updateMetadata(id, { totalCost: 0.9 });
+
+      expect(manager.checkBudget(id, 2, true, 10)).toMatchObject({ allowed: false, needsConfirmation: false });
+    });
+  });
+
+  describe('server-side state', () => {
+    it('should store the last response id when server state is enabled', () => {
+      const id = manager.startConversation('Test', undefined, undefined, true);
+
+      manager.setLastResponseId(id, 'resp_123');
+
+      expect(manager.getConversation(id)?.metadata.lastResponseId).toBe('resp_123');
+    });
+
+    it('should ignore response ids when server state is disabled', () => {
+      const id = manager.startConversation('Test');
+
+      manager.setLastResponseId(id, 'resp_123');
+
+      expect(manager.getConversation(id)?.metadata.lastResponseId).toBeUndefined();
+    });
+
+    it('should clear the stored response id when server state is turned off', () => {
+      const id = manager.startConversation('Test', undefined, undefined, true);
+      manager.setLastResponseId(id, 'resp_123');
+
+      manager.setOptions(id, { serverState: false });
+
+      const metadata = manager.getConversation(id)?.metadata;
+      expect(metadata?.serverState).toBe(false);
+      expect(metadata?.lastResponseId).toBeUndefined();
+    });
+  });
+
   describe('listConversations', () => {
     it('should return sorted list of conversations', () => {
       const id1 = manager.startConversation('Topic 1');
@@ -209,6 +355,229 @@ describe('ConversationManager', () => {
     });
   });
 
+  describe('regenerate, edit and undo', () => {
+    let id: string;
+
+    beforeEach(() => {
+      id = manager.startConversation('Topic', 'Be brief', undefined, true);
+      manager.addMessage(id, 'user', 'First question');
+      manager.addMessage(id, 'assistant', 'First answer');
+      manager.addMessage(id, 'user', 'Second question');
+      manager.addMessage(id, 'assistant', 'Second answer');
+    });
+
+    it('should keep replaced replies as alternates when regenerating', () => {
+      manager.replaceLastReply(id, 'Better answer');
+      const reply = manager.replaceLastReply(id, 'Best answer');
+
+      expect(reply.content).toBe('Best answer');
+      expect(reply.alternates?.map(alternate => alternate.content)).toEqual(['Second answer', 'Better answer']);
+      expect(manager.getConversation(id)?.messages).toHaveLength(5);
+      expect(manager.formatForAPI(id).slice(-1)).toEqual([{ role: 'assistant', content: 'Best answer' }]);
+    });
+
+    it('should refuse to regenerate when the last message is not a reply', () => {
+      manager.addMessage(id, 'user', 'Unanswered');
+
+      expect(() => manager.replaceLastReply(id, 'Answer')).toThrow('does not end with an assistant reply');
+    });
+
+    it('should replace an edited message and its reply and drop what came after', () => {
+      const { dropped } = manager.editMessage(id, 1, 'First question, rephrased', 'New first answer');
+      const messages = manager.getConversation(id)!.messages;
+
+      expect(dropped).toBe(2);
+      expect(messages.map(message => message.content)).toEqual(['Be brief', 'First question, rephrased', 'New first answer']);
+      expect(messages[1].alternates?.[0].content).toBe('First question');
+      expect(messages[2].alternates?.[0].content).toBe('First answer');
+    });
+
+    it('should keep the dropped messages in a fork of the conversation before the edit', () => {
+      const { forkId } = manager.editMessage(id, 1, 'First question, rephrased', 'New first answer');
+      const fork = manager.getConversation(forkId!)!;
+
+      expect(fork.messages.map(message => message.content)).toEqual(['Be brief', 'First question', 'First answer', 'Second question', 'Second answer']);
+      expect(fork.metadata).toMatchObject({ parentId: id, topic: 'Topic (before edit)', totalCost: 0 });
+    });
+
+    it('should not fork when editing the last exchange drops nothing', () => {
+      const { dropped, forkId } = manager.editMessage(id, 3, 'Second question, rephrased', 'New second answer');
+
+      expect(dropped).toBe(0);
+      expect(forkId).toBeUndefined();
+      expect(manager.listConversations()).toHaveLength(1);
+    });
+
+    it('should only edit user messages', () => {
+      expect(() => manager.editMessage(id, 2, 'Rewritten answer', 'Reply')).toThrow('is not a user message');
+      expect(() => manager.editMessage(id, 0, 'New instructions', 'Reply')).toThrow('is not a user message');
+    });
+
+    it('should undo the last exchange and drop the server-side chain', () => {
+      manager.setLastResponseId(id, 'resp_2');
+
+      const { removed, forkId } = manager.undoLastExchange(id);
+
+      expect(removed.map(message => message.content)).toEqual(['Second question', 'Second answer']);
+      expect(manager.getConversation(id)?.messages).toHaveLength(3);
+      expect(manager.getConversation(id)?.metadata.lastResponseId).toBeUndefined();
+      // The undone exchange is still there in the fork, which can chain from the old response
+      expect(manager.getConversation(forkId)?.messages.slice(-2).map(message => message.content)).toEqual(['Second question', 'Second answer']);
+      expect(manager.getConversation(forkId)?.metadata.lastResponseId).toBe('resp_2');
+    });
+
+    it('should never undo the instructions', () => {
+      manager.undoLastExchange(id);
+      manager.undoLastExchange(id);
+
+      expect(() => manager.undoLastExchange(id)).toThrow('no exchange to undo');
+      expect(manager.getInstructions(id)).toBe('Be brief');
+    });
+  });
+
+  describe('compaction', () => {
+    let id: string;
+
+    beforeEach(() => {
+      id = manager.startConversation('Topic', 'Be brief', undefined, true);
+      manager.addMessage(id, 'user', 'First question');
+      manager.addMessage(id, 'assistant', 'First answer');
+      manager.addMessage(id, 'user', 'Second question');
+      manager.addMessage(id, 'assistant', 'Second answer');
+      manager.addMessage(id, 'user', 'Third question');
+    });
+
+    it('should leave instructions, pinned and recent messages out of the candidates', () => {
+      manager.pinMessage(id, 2, true);
+
+      const candidates = manager.getCompactionCandidates(id, 2);
+
+      expect(candidates.map(message => message.content)).toEqual(['First question', 'Second question']);
+    });
+
+    it('should replace folded messages with a summary and archive them', () => {
+      manager.setLastResponseId(id, 'resp_2');
+
+      manager.compact(id, 'Summary one', manager.getCompactionCandidates(id, 1));
+      const conversation = manager.getConversation(id)!;
+
+      expect(conversation.messages.map(message => message.content)).toEqual(['Be brief', 'Summary one', 'Third question']);
+      expect(conversation.messages[1]).toMatchObject({ role: 'assistant', summary: true });
+      expect(conversation.archive?.map(message => message.content)).toEqual(['First question', 'First answer', 'Second question', 'Second answer']);
+      expect(conversation.metadata.compactions).toBe(1);
+      expect(conversation.metadata.lastResponseId).toBeUndefined();
+    });
+
+    it('should roll an earlier summary into the next one', () => {
+      manager.compact(id, 'Summary one', manager.getCompactionCandidates(id, 1));
+      manager.addMessage(id, 'assistant', 'Third answer');
+      manager.addMessage(id, 'user', 'Fourth question');
+
+      const candidates = manager.getCompactionCandidates(id, 1);
+      expect(candidates.map(message => message.content)).toEqual(['Summary one', 'Third question', 'Third answer']);
+
+      manager.compact(id, 'Summary two', candidates);
+      const conversation = manager.getConversation(id)!;
+      expect(conversation.messages.map(message => message.content)).toEqual(['Be brief', 'Summary two', 'Fourth question']);
+      expect(conversation.archive).toHaveLength(7);
+    });
+
+    it('should always send the summary and never undo it', () => {
+      manager.compact(id, 'Summary', manager.getCompactionCandidates(id, 1));
+
+      expect(manager.selectContext(id, { maxTokens: 1 }).messages).toEqual([
+        { role: 'assistant', content: 'Summary' },
+        { role: 'user', content: 'Third question' }
+      ]);
+      manager.undoLastExchange(id);
+      expect(() => manager.undoLastExchange(id)).toThrow('no exchange to undo');
+    });
+
+    it('should add summary costs to the conversation total', () => {
+      manager.updateMetadata(id, { totalCost: 0.02, tokenCount: 300, summaryCost: 0.02 });
+      manager.updateMetadata(id, { totalCost: 0.01, tokenCount: 100, summaryCost: 0.01 });
+
+      expect(manager.getConversation(id)?.metadata).toMatchObject({ totalCost: 0.03, tokenCount: 400, summaryCost: 0.03 });
+    });
+  });
+
+  describe('forkConversation', () => {
+    it('should copy messages up to the branch point with its own cost', () => {
+      const parentId = manager.startConversation('Design', 'Be brief', 5);
+      manager.addMessage(parentId, 'user', 'Queue or log?');
+      manager.addMessage(parentId, 'assistant', 'Log.');
+      manager.addMessage(parentId, 'user', 'Why?');
+      manager.updateMetadata(parentId, { totalCost: 0.4, tokenCount: 80 });
+
+      const forkId = manager.forkConversation(parentId, 2, 'Design (queue)');
+      const fork = manager.getConversation(forkId)!;
+
+      expect(fork.messages.map(message => message.content)).toEqual(['Be brief', 'Queue or log?', 'Log.']);
+      expect(fork.metadata).toMatchObject({ topic: 'Design (queue)', parentId, branchPoint: 2, budgetLimit: 5, totalCost: 0, tokenCount: 0 });
+      expect(manager.getInstructions(forkId)).toBe('Be brief');
+
+      // Branches diverge without touching each other
+      manager.addMessage(forkId, 'user', 'What about a queue?');
+      expect(manager.getConversation(parentId)?.messages).toHaveLength(4);
+    });
+
+    it('should fork at the latest message by default', () => {
+      const parentId = manager.startConversation('Topic');
+      manager.addMessage(parentId, 'user', 'Hello');
+
+      const fork = manager.getConversation(manager.forkConversation(parentId))!;
+
+      expect(fork.metadata.branchPoint).toBe(0);
+      expect(fork.metadata.topic).toBe('Topic');
+    });
+
+    it('should only keep the server-side chain when every message is copied', () => {
+      const parentId = manager.startConversation('Topic', undefined, undefined, true);
+      manager.addMessage(parentId, 'user', 'One');
+      manager.addMessage(parentId, 'assistant', 'Two');
+      manager.setLastResponseId(parentId, 'resp_2');
+
+      expect(manager.getConversation(manager.forkConversation(parentId))?.metadata.lastResponseId).toBe('resp_2');
+      expect(manager.getConversation(manager.forkConversation(parentId, 0))?.metadata.lastResponseId).toBeUndefined();
+    });
+
+    it('should reject an index outside the conversation', () => {
+      const parentId = manager.startConversation('Topic');
+      manager.addMessage(parentId, 'user', 'Hello');
+
+      expect(() => manager.forkConversation(parentId, 1)).toThrow('out of range');
+      expect(() => manager.forkConversation('conv_missing')).toThrow('not found');
+    });
+  });
+
+  describe('getBranchTree', () => {
+    it('should return the whole tree from any branch', () => {
+      const rootId = manager.startConversation('Root');
+      manager.addMessage(rootId, 'user', 'Hello');
+      manager.addMessage(rootId, 'assistant', 'Hi');
+      const firstFork = manager.forkConversation(rootId, 0);
+      const secondFork = manager.forkConversation(rootId, 1);
+      const nestedFork = manager.forkConversation(firstFork);
+
+      const tree = manager.getBranchTree(nestedFork)!;
+
+      expect(tree.id).toBe(rootId);
+      expect(tree.children.map(child => child.id)).toEqual([firstFork, secondFork]);
+      expect(tree.children[0]).toMatchObject({ branchPoint: 0, messageCount: 1 });
+      expect(tree.children[0].children.map(child => child.id)).toEqual([nestedFork]);
+    });
+
+    it('should treat a fork of a deleted conversation as a root', () => {
+      const rootId = manager.startConversation('Root');
+      manager.addMessage(rootId, 'user', 'Hello');
+      const forkId = manager.forkConversation(rootId);
+      manager.deleteConversation(rootId);
+
+      expect(manager.getBranchTree(forkId)).toMatchObject({ id: forkId, children: [] });
+      expect(manager.getBranchTree(rootId)).toBeUndefined();
+    });
+  });
+
   describe('exportConversation and importConversation', () => {
     it('should export and import conversation', () => {
       const originalId = manager.startConversation('Test Topic', 'Instructions');
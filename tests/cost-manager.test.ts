@@ -109,6 +109,23 @@ describe('CostManager', () => {
     });
   });
 
+  describe('recordUsage', () => {
+    it('should record spend that checkAndRecordUsage would refuse', async () => {
+      const usage: TokenUsage = {
+        inputTokens: 5000,
+        outputTokens: 10000,
+        totalTokens: 15000,
+        estimatedCost: 25.0 // Over the daily limit and 10x the task limit
+      };
+
+      const result = await costManager.recordUsage('task-1', usage, { model: 'gpt-5' });
+      const report = await costManager.getDailyReport();
+
+      expect(result.warning).toContain('over limit');
+      expect(report.usage.daily).toBe(25.0);
+    });
+  });
+
   describe('updateLimits', () => {
     it('should update daily limit', async () => {
       await costManager.updateLimits({ daily: 20.0 });
@@ -161,6 +178,53 @@ describe('CostManager', () => {
       expect(report.totalCost).toBe(0.5);
       expect(report.breakdown.length).toBeGreaterThan(0);
     });
+
+    it('should aggregate cached tokens and prompt cache savings', async () => {
+      const usage: TokenUsage = {
+        inputTokens: 10000,
+        cachedInputTokens: 8000,
+        outputTokens: 200,
+        totalTokens: 10200,
+        estimatedCost: 0.0055,
+        cacheSavings: 0.009
+      };
+
+      await costManager.checkAndRecordUsage('task-1', usage);
+      await costManager.checkAndRecordUsage('task-2', usage);
+
+      const report = await costManager.generateReport('today');
+
+      expect(report.cacheSavings).toBeCloseTo(0.018);
+      expect(report.breakdown[0].tokenUsage.cached).toBe(16000);
+      expect(report.breakdown[0].cacheSavings).toBeCloseTo(0.018);
+    });
+
+    it('should count fallback events by kind', async () => {
+      const usage: TokenUsage = { inputTokens: 100, outputTokens: 50, totalTokens: 150, estimatedCost: 0.01 };
+      const fallback = { from: 'gpt-5', to: 'gpt-4o', kind: 'transient' as const, reason: '503 Service Unavailable' };
+
+      await costManager.checkAndRecordUsage('task-1', usage, false, { model: 'gpt-5' });
+      await costManager.checkAndRecordUsage('task-2', usage, false, { model: 'gpt-4o', fallback });
+      await costManager.checkAndRecordUsage('task-3', usage, false, { model: 'gpt-4o', fallback });
+
+      const report = await costManager.generateReport('today');
+
+      expect(report.fallbacks).toEqual({ count: 2, byKind: { transient: 2 } });
+    });
+
+    it('should report response cache hits as savings without recording spend', async () => {
+      costManager.startNewTask('task-cached');
+      costManager.recordCacheHit('task-cached', 0.12);
+      costManager.recordCacheHit('task-cached', 0.03);
+
+      const report = await costManager.generateReport('today');
+      const taskReport = await costManager.generateReport('current_task');
+
+      expect(report.responseCache).toEqual({ hits: 2, costSaved: 0.15 });
+      expect(report.totalCost).toBe(0);
+      expect(taskReport.responseCache).toEqual({ hits: 2, costSaved: 0.15 });
+      expect((await costManager.getDailyReport()).usage.daily).toBe(0);
+    });
   });
 
   describe('startNewTask', () => {
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { allowsFallback, classifyError, parseFallbackPolicy } from '../src/fallback';
+
+const apiError = (status: number | undefined, message: string, extra: Record<string, any> = {}) =>
+  Object.assign(new Error(message), { status, ...extra });
+
+describe('classifyError', () => {
+  it('should treat missing models as model_unavailable', () => {
+    expect(classifyError(apiError(404, 'Not found')).kind).toBe('model_unavailable');
+    expect(classifyError(apiError(400, 'The model `gpt-5` does not exist')).kind).toBe('model_unavailable');
+  });
+
+  it('should treat rate limits, server errors and timeouts as transient', () => {
+    expect(classifyError(apiError(429, 'Rate limit reached')).kind).toBe('transient');
+    expect(classifyError(apiError(503, 'Service Unavailable')).kind).toBe('transient');
+    expect(classifyError(apiError(undefined, 'Request timed out.', { name: 'APIConnectionTimeoutError' })).kind).toBe('transient');
+  });
+
+  it('should treat auth, bad parameters and exhausted quota as fatal', () => {
+    expect(classifyError(apiError(401, 'Incorrect API key')).kind).toBe('fatal');
+    expect(classifyError(apiError(400, "Unsupported parameter: 'temperature'")).kind).toBe('fatal');
+    expect(classifyError(apiError(429, 'You exceeded your current quota', { code: 'insufficient_quota' })).kind).toBe('fatal');
+  });
+
+  it('should include the status in the reason', () => {
+    expect(classifyError(apiError(503, 'Service Unavailable')).reason).toBe('503 Service Unavailable');
+  });
+});
+
+describe('allowsFallback', () => {
+  it('should follow the policy', () => {
+    expect(allowsFallback('never', 'model_unavailable')).toBe(false);
+    expect(allowsFallback('model_unavailable', 'model_unavailable')).toBe(true);
+    expect(allowsFallback('model_unavailable', 'transient')).toBe(false);
+    expect(allowsFallback('transient', 'model_unavailable')).toBe(true);
+    expect(allowsFallback('transient', 'transient')).toBe(true);
+    expect(allowsFallback('transient', 'fatal')).toBe(false);
+  });
+});
+
+describe('parseFallbackPolicy', () => {
+  it('should default to transient and reject unknown values', () => {
+    expect(parseFallbackPolicy(undefined)).toBe('transient');
+    expect(parseFallbackPolicy('never')).toBe('never');
+    expect(() => parseFallbackPolicy('always')).toThrow('Invalid OPENAI_FALLBACK_POLICY');
+  });
+});
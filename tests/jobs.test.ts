@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JobManager } from '../src/jobs';
+import { GPT5Client } from '../src/openai-client';
+import { LLMProvider } from '../src/providers';
+import { CostManager } from '../src/cost-manager';
+
+describe('JobManager', () => {
+  let dataDir: string;
+  let provider: LLMProvider;
+  let retrieveResponse: jest.Mock<(id: string) => Promise<any>>;
+  let cancelResponse: jest.Mock<(id: string) => Promise<any>>;
+  let createResponse: jest.Mock<(params: any, options?: any) => Promise<any>>;
+  let recordUsage: jest.Mock<(...args: any[]) => Promise<any>>;
+  let costManager: CostManager;
+
+  const completed = {
+    id: 'resp_bg',
+    status: 'completed',
+    model: 'gpt-5',
+    output_text: 'the answer',
+    output: [],
+    usage: { input_tokens: 100, output_tokens: 50, total_tokens: 150 }
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gpt5-jobs-'));
+    createResponse = jest.fn(async () => ({ id: 'resp_bg', status: 'queued' }));
+    retrieveResponse = jest.fn(async () => ({ id: 'resp_bg', status: 'in_progress', usage: null }));
+    cancelResponse = jest.fn(async () => undefined);
+    provider = {
+      name: 'openai',
+      supportsResponsesApi: true,
+      createResponse,
+      streamResponse: jest.fn(async () => { throw new Error('not used'); }),
+      createChatCompletion: jest.fn(async () => { throw new Error('not used'); }),
+      retrieveResponse,
+      cancelResponse,
+      createBatch: jest.fn(async () => { throw new Error('not used'); }),
+      retrieveBatch: jest.fn(async () => { throw new Error('not used'); }),
+      downloadFile: jest.fn(async () => { throw new Error('not used'); }),
+      getPricing: () => ({ input: 0.01, output: 0.03 }),
+      getDefaultChatModels: () => ['gpt-4o']
+    };
+    recordUsage = jest.fn(async () => ({}));
+    costManager = { recordUsage } as unknown as CostManager;
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should queue a background response and record its cost once it completes', async () => {
+    const jobs = new JobManager(new GPT5Client(provider), costManager, dataDir, 0);
+
+    const job = await jobs.submit('task_1', { input: 'Design a cache' });
+
+    expect(job).toMatchObject({ mode: 'background', status: 'queued', responseId: 'resp_bg' });
+    expect(createResponse.mock.calls[0][0]).toMatchObject({ background: true, store: true, input: 'Design a cache' });
+
+    expect((await jobs.get(job.id))?.status).toBe('in_progress');
+    expect(recordUsage).not.toHaveBeenCalled();
+
+    retrieveResponse.mockResolvedValue(completed);
+    await jobs.get(job.id);
+    await jobs.get(job.id);
+
+    expect(job.status).toBe('completed');
+    expect(job.result?.text).toBe('the answer');
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsage).toHaveBeenCalledWith('task_1', expect.objectContaining({ inputTokens: 100, outputTokens: 50 }), expect.objectContaining({ model: 'gpt-5' }));
+  });
+
+  it('should resume background jobs after a restart', async () => {
+    const first = new JobManager(new GPT5Client(provider), costManager, dataDir, 0);
+    const job = await first.submit('task_1', { input: 'Design a cache' });
+    await first.flush();
+
+    retrieveResponse.mockResolvedValue(completed);
+    const second = new JobManager(new GPT5Client(provider), costManager, dataDir, 0);
+    const resumed = await second.get(job.id);
+
+    expect(resumed).toMatchObject({ id: job.id, status: 'completed', taskId: 'task_1' });
+    expect(resumed?.result?.text).toBe('the answer');
+  });
+
+  it('should run in-process when background mode is unavailable and mark it failed after a restart', async () => {
+    const local = new GPT5Client({ ...provider, supportsResponsesApi: false });
+    (provider.createChatCompletion as jest.Mock<any>).mockImplementation(() => new Promise(() => {}));
+    const first = new JobManager(local, costManager, dataDir, 0);
+
+    const job = await first.submit('task_1', { input: 'Design a cache' });
+    expect(job).toMatchObject({ mode: 'local', status: 'in_progress' });
+    await first.flush();
+
+    const second = new JobManager(local, costManager, dataDir, 0);
+    expect(await second.get(job.id)).toMatchObject({ status: 'failed', error: 'Server restarted before the job finished' });
+  });
+
+  it('should cancel a background job and record what was billed', async () => {
+    const jobs = new JobManager(new GPT5Client(provider), costManager, dataDir, 0);
+    const job = await jobs.submit('task_1', { input: 'Design a cache' });
+    retrieveResponse.mockResolvedValue({ ...completed, status: 'cancelled', output_text: '' });
+
+    await jobs.cancel(job.id);
+
+    expect(cancelResponse.mock.calls[0][0]).toBe('resp_bg');
+    expect(job.status).toBe('cancelled');
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give a local job the streaming timeout', async () => {
+    createResponse.mockRejectedValue(Object.assign(new Error('background mode is not supported'), { status: 400 }));
+    provider.streamResponse = jest.fn(async () => {
+      const handlers: Record<string, (event: any) => void> = {};
+      return {
+        on: (name: string, handler: (event: any) => void) => { handlers[name] = handler; },
+        done: async () => {
+          // Longer than OPENAI_TIMEOUT_MS below
+          await new Promise(resolve => setTimeout(resolve, 100));
+          handlers['response.output_text.delta']({ delta: 'the answer' });
+          handlers['response.completed']({ response: completed });
+        }
+      };
+    });
+    process.env.OPENAI_TIMEOUT_MS = '20';
+    try {
+      const jobs = new JobManager(new GPT5Client(provider), costManager, dataDir, 0);
+      const job = await jobs.submit('task_1', { input: 'Design a cache' });
+      expect(job.mode).toBe('local');
+
+      for (let i = 0; i < 50 && job.status === 'in_progress'; i++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+
+      expect(job.status).toBe('completed');
+      expect(job.result?.text).toBe('the answer');
+    } finally {
+      delete process.env.OPENAI_TIMEOUT_MS;
+    }
+  });
+
+  it('should abort a local job on cancel', async () => {
+    createResponse.mockRejectedValue(Object.assign(new Error('background mode is not supported'), { status: 400 }));
+    provider.streamResponse = jest.fn(async (_params: any, options?: { signal?: AbortSignal }) =>
+      new Promise<any>((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new Error('Request was aborted.')));
+      })
+    );
+    const jobs = new JobManager(new GPT5Client(provider), costManager, dataDir, 0);
+    const job = await jobs.submit('task_1', { input: 'Design a cache' });
+    expect(job.mode).toBe('local');
+
+    await jobs.cancel(job.id);
+
+    expect(job.status).toBe('cancelled');
+    // The prompt had already been sent, so its estimate is charged
+    expect(recordUsage).toHaveBeenCalledWith('task_1', expect.objectContaining({ estimated: true }), expect.anything());
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalToolRegistry } from '../src/local-tools';
+
+describe('LocalToolRegistry', () => {
+  let root: string;
+  let outside: string;
+  let registry: LocalToolRegistry;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'gpt5-tools-'));
+    outside = await fs.mkdtemp(path.join(os.tmpdir(), 'gpt5-outside-'));
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'src', 'app.ts'), 'export function main() {\n  return 42;\n}\n');
+    await fs.writeFile(path.join(root, 'README.md'), 'x'.repeat(200));
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'top secret');
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(root, 'link.txt'));
+    registry = new LocalToolRegistry(root, 100, 10);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  it('should expose function definitions', () => {
+    expect(registry.getDefinitions().map(d => d.name)).toEqual(['read_file', 'list_directory', 'grep']);
+  });
+
+  it('should read files inside the workspace', async () => {
+    const result = await registry.execute('read_file', JSON.stringify({ path: 'src/app.ts' }));
+    expect(result).toContain('return 42;');
+  });
+
+  it('should truncate large files', async () => {
+    const result = await registry.execute('read_file', JSON.stringify({ path: 'README.md' }));
+    expect(result).toContain('[... truncated at 100 of 200 bytes ...]');
+  });
+
+  it('should refuse paths outside the workspace', async () => {
+    const escaped = await registry.execute('read_file', JSON.stringify({ path: path.join(outside, 'secret.txt') }));
+    expect(escaped).toContain('outside the workspace');
+
+    const traversal = await registry.execute('read_file', JSON.stringify({ path: '../' + path.basename(outside) + '/secret.txt' }));
+    expect(traversal).toContain('outside the workspace');
+
+    const symlink = await registry.execute('read_file', JSON.stringify({ path: 'link.txt' }));
+    expect(symlink).toContain('outside the workspace');
+  });
+
+  it('should list directories', async () => {
+    const result = await registry.execute('list_directory', JSON.stringify({}));
+    expect(result.split('\n')).toEqual(['README.md', 'link.txt', 'src/']);
+  });
+
+  it('should grep for matches with line numbers', async () => {
+    const result = await registry.execute('grep', JSON.stringify({ pattern: 'return \\d+' }));
+    expect(result).toBe(`${path.join('src', 'app.ts')}:2:   return 42;`);
+  });
+
+  it('should stop a catastrophic-backtracking pattern at the timeout', async () => {
+    await fs.writeFile(path.join(root, 'src', 'evil.txt'), 'a'.repeat(40) + '!\n');
+    const slow = new LocalToolRegistry(root, 100, 10, 200);
+    const started = Date.now();
+    const result = await slow.execute('grep', JSON.stringify({ pattern: '^(a+)+$', path: 'src/evil.txt' }));
+    expect(result).toBe('Error: grep timed out after 200ms; try a simpler pattern or a narrower path');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should refuse overlong patterns', async () => {
+    const result = await registry.execute('grep', JSON.stringify({ pattern: 'a'.repeat(501) }));
+    expect(result).toBe('Error: pattern is longer than 500 characters');
+  });
+
+  it('should report errors as text', async () => {
+    expect(await registry.execute('delete_file', '{}')).toBe('Error: unknown tool delete_file');
+    expect(await registry.execute('read_file', 'not json')).toMatch(/^Error:/);
+  });
+});
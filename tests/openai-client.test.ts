@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import OpenAI from 'openai';
+import { GPT5Client } from '../src/openai-client';
+import { LLMProvider } from '../src/providers';
+import { CircuitOpenError, RequestCancelledError, RequestTimeoutError } from '../src/errors';
+import { CircuitBreakerRegistry } from '../src/circuit-breaker';
+import { RateLimiter } from '../src/rate-limiter';
+
+describe('GPT5Client', () => {
+  let createResponse: jest.Mock<(params: any) => Promise<any>>;
+  let createChatCompletion: jest.Mock<(params: any) => Promise<any>>;
+  let provider: LLMProvider;
+
+  beforeEach(() => {
+    createResponse = jest.fn(async () => ({
+      id: 'resp_1',
+      output_text: 'ok',
+      output: [],
+      usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 }
+    }));
+    createChatCompletion = jest.fn(async (params: any) => ({
+      model: params.model,
+      choices: [{ message: { content: 'fallback answer' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+    }));
+    provider = {
+      name: 'openai',
+      supportsResponsesApi: true,
+      createResponse,
+      streamResponse: jest.fn(async () => { throw new Error('not used'); }),
+      createChatCompletion,
+      retrieveResponse: jest.fn(async () => { throw new Error('not used'); }),
+      cancelResponse: jest.fn(async () => { throw new Error('not used'); }),
+      createBatch: jest.fn(async () => { throw new Error('not used'); }),
+      retrieveBatch: jest.fn(async () => { throw new Error('not used'); }),
+      downloadFile: jest.fn(async () => { throw new Error('not used'); }),
+      getPricing: () => ({ input: 0.01, output: 0.03 }),
+      getDefaultChatModels: () => ['gpt-4o']
+    };
+  });
+
+  describe('verbosity', () => {
+    it('should not send verbosity unless configured', async () => {
+      const client = new GPT5Client(provider);
+
+      await client.createResponse({ input: 'hi' });
+
+      expect(createResponse.mock.calls[0][0].text).toBeUndefined();
+    });
+
+    it('should use the default verbosity when the request has none', async () => {
+      const client = new GPT5Client(provider, 0.7, 'high', 'low');
+
+      await client.createResponse({ input: 'hi' });
+
+      expect(createResponse.mock.calls[0][0].text).toEqual({ verbosity: 'low' });
+    });
+
+    it('should let the request override the default and keep the response format', async () => {
+      const client = new GPT5Client(provider, 0.7, 'high', 'low');
+
+      await client.createResponse({
+        input: 'hi',
+        verbosity: 'high',
+        responseFormat: { name: 'answer', schema: { type: 'object' } }
+      });
+
+      const text = createResponse.mock.calls[0][0].text;
+      expect(text.verbosity).toBe('high');
+      expect(text.format).toMatchObject({ type: 'json_schema', name: 'answer' });
+    });
+  });
+
+  describe('attachments', () => {
+    const image = { kind: 'image' as const, mimeType: 'image/png', data: 'AAAA', name: 'shot.png', estimatedTokens: 255 };
+    const pdf = { kind: 'file' as const, mimeType: 'application/pdf', data: 'BBBB', name: 'spec.pdf', estimatedTokens: 1500 };
+
+    it('should add attachments to the user message as input parts', async () => {
+      const client = new GPT5Client(provider);
+
+      await client.createResponse({ input: 'What is wrong here?', attachments: [image, pdf] });
+
+      expect(createResponse.mock.calls[0][0].input).toEqual([{
+        role: 'user',
+        content: [
+          { type: 'input_text', text: 'What is wrong here?' },
+          { type: 'input_image', image_url: 'data:image/png;base64,AAAA', detail: 'auto' },
+          { type: 'input_file', filename: 'spec.pdf', file_data: 'data:application/pdf;base64,BBBB' }
+        ]
+      }]);
+    });
+
+    it('should send images to the chat fallback and say which files were left out', async () => {
+      const client = new GPT5Client({ ...provider, supportsResponsesApi: false });
+
+      await client.createResponse({ input: 'What is wrong here?', attachments: [image, pdf] });
+
+      const messages = createChatCompletion.mock.calls[0][0].messages;
+      expect(messages[messages.length - 1].content).toEqual([
+        { type: 'text', text: 'What is wrong here?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        { type: 'text', text: '[Attachments left out because this model only accepts images: spec.pdf (application/pdf)]' }
+      ]);
+    });
+  });
+
+  describe('fallback policy', () => {
+    const failWith = (status: number, message: string) => {
+      createResponse.mockRejectedValue(Object.assign(new Error(message), { status }));
+    };
+
+    it('should report the model that answered', async () => {
+      const client = new GPT5Client(provider);
+
+      const response = await client.createResponse({ input: 'hi' });
+
+      expect(response.model).toBe('gpt-5');
+      expect(response.fallback).toBeUndefined();
+    });
+
+    it('should send and price a per-request model', async () => {
+      provider.getPricing = (model: string) => model === 'gpt-5-mini' ? { input: 0.001, output: 0.002 } : { input: 0.01, output: 0.03 };
+      const client = new GPT5Client(provider);
+
+      const response = await client.createResponse({ input: 'hi', model: 'gpt-5-mini' });
+
+      expect(createResponse.mock.calls[0][0].model).toBe('gpt-5-mini');
+      expect(response.model).toBe('gpt-5-mini');
+      expect(response.usage.estimatedCost).toBeCloseTo((10 * 0.001 + 5 * 0.002) / 1000);
+    });
+
+    it('should fall back on transient errors and say why', async () => {
+      process.env.OPENAI_RETRY_COUNT = '0';
+      failWith(503, 'Service Unavailable');
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'transient');
+
+      const response = await client.createResponse({ input: 'hi' });
+
+      expect(response.text).toBe('fallback answer');
+      expect(response.model).toBe('gpt-4o');
+      expect(response.fallback).toEqual({ from: 'gpt-5', to: 'gpt-4o', kind: 'transient', reason: '503 Service Unavailable' });
+      delete process.env.OPENAI_RETRY_COUNT;
+    });
+
+    it('should never fall back on fatal errors', async () => {
+      failWith(401, 'Incorrect API key provided');
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'transient');
+
+      await expect(client.createResponse({ input: 'hi' })).rejects.toThrow('Incorrect API key provided');
+      expect(createChatCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back when the policy is never', async () => {
+      failWith(404, 'The model `gpt-5` does not exist');
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'never');
+
+      await expect(client.createResponse({ input: 'hi' })).rejects.toThrow('does not exist');
+      expect(createChatCompletion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation and timeouts', () => {
+    // Behaves like the SDK: the request only settles when its signal aborts
+    const hangUntilAborted = async (_params: any, options?: { signal?: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new Error('Request was aborted.')));
+      });
+
+    afterEach(() => {
+      delete process.env.OPENAI_TIMEOUT_MS;
+    });
+
+    it('should pass an abort signal to the SDK and time out', async () => {
+      process.env.OPENAI_TIMEOUT_MS = '20';
+      createResponse.mockImplementation(hangUntilAborted);
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'never');
+
+      await expect(client.createResponse({ input: 'hi' })).rejects.toBeInstanceOf(RequestTimeoutError);
+    });
+
+    it('should stop without falling back when the caller cancels, recording the prompt estimate', async () => {
+      createResponse.mockImplementation(hangUntilAborted);
+      const controller = new AbortController();
+      const client = new GPT5Client(provider);
+
+      const pending = client.createResponse({ input: 'Explain the design', signal: controller.signal });
+      controller.abort();
+
+      const error = await pending.catch(e => e);
+      expect(error).toBeInstanceOf(RequestCancelledError);
+      expect(error.usage.inputTokens).toBeGreaterThan(0);
+      expect(error.usage.estimated).toBe(true);
+      expect(createChatCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should turn a cancelled stream into a cancellation instead of an unhandled rejection', async () => {
+      // A real SDK stream that sends one delta and then stalls until its request is aborted
+      const events = [
+        { type: 'response.created', response: { id: 'resp_1', output: [] } },
+        { type: 'response.output_item.added', output_index: 0, item: { type: 'message', content: [] } },
+        { type: 'response.content_part.added', output_index: 0, content_index: 0, part: { type: 'output_text', text: '' } },
+        { type: 'response.output_text.delta', output_index: 0, content_index: 0, delta: 'Partial answer' }
+      ];
+      const sdk = new OpenAI({
+        apiKey: 'test',
+        fetch: (async (_url: any, init: any) => new Response(new ReadableStream({
+          start(stream) {
+            stream.enqueue(new TextEncoder().encode(events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('')));
+            init.signal.addEventListener('abort', () => stream.error(new DOMException('This operation was aborted', 'AbortError')));
+          }
+        }), { status: 200, headers: { 'content-type': 'text/event-stream' } })) as any
+      });
+      provider.streamResponse = async (params: any, options?: { signal?: AbortSignal }) => sdk.responses.stream(params, { signal: options?.signal });
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      const controller = new AbortController();
+      const client = new GPT5Client(provider);
+
+      try {
+        const error = await client.createResponse({
+          input: 'Explain the design',
+          stream: true,
+          signal: controller.signal,
+          onProgress: event => { if (event.type === 'text_delta') controller.abort(); }
+        }).catch(e => e);
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(error).toBeInstanceOf(RequestCancelledError);
+        expect(error.usage.outputTokens).toBeGreaterThan(0);
+        expect(unhandled).not.toHaveBeenCalled();
+      } finally {
+        process.off('unhandledRejection', unhandled);
+      }
+    });
+
+    it('should not send a request that is already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const client = new GPT5Client(provider);
+
+      await expect(client.createResponse({ input: 'hi', signal: controller.signal })).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(createResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('incomplete responses', () => {
+    it('should flag answers cut off by the token limit', async () => {
+      createResponse.mockResolvedValueOnce({
+        id: 'resp_1',
+        status: 'incomplete',
+        output_text: 'The design has three',
+        output: [],
+        usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 }
+      });
+      const client = new GPT5Client(provider);
+
+      expect((await client.createResponse({ input: 'hi' })).incomplete).toBe(true);
+      expect((await client.createResponse({ input: 'hi' })).incomplete).toBeUndefined();
+    });
+  });
+
+  describe('batches', () => {
+    it('should not retry creating a batch', async () => {
+      const createBatch = jest.fn(async () => { throw Object.assign(new Error('Bad gateway'), { status: 502 }); });
+      provider.createBatch = createBatch;
+      const client = new GPT5Client(provider);
+
+      await expect(client.createBatch([{ customId: 'item-1', params: { input: 'hi' } }])).rejects.toThrow('Bad gateway');
+      expect(createBatch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rate limiting', () => {
+    afterEach(() => {
+      delete process.env.OPENAI_RETRY_BASE_DELAY_MS;
+    });
+
+    it('should hold the retry of a 429 until Retry-After has passed', async () => {
+      process.env.OPENAI_RETRY_BASE_DELAY_MS = '1';
+      createResponse.mockRejectedValueOnce(Object.assign(new Error('Rate limit reached'), { status: 429, headers: { 'retry-after-ms': '50' } }));
+      const client = new GPT5Client(provider);
+
+      const started = Date.now();
+      const response = await client.createResponse({ input: 'hi' });
+
+      expect(response.text).toBe('ok');
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+      expect(client.getRateLimitStatus()).toMatchObject({ queueDepth: 0, waitedRequests: 1 });
+    });
+
+    it('should charge polls a request slot', async () => {
+      (provider.retrieveResponse as jest.Mock<any>).mockResolvedValue({ id: 'resp_1', status: 'in_progress' });
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'transient', undefined, new RateLimiter(1, 0));
+
+      await client.createResponse({ input: 'hi' });
+      const controller = new AbortController();
+      const poll = client.getBackgroundResponse('resp_1', controller.signal);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(client.getRateLimitStatus().queueDepth).toBe(1);
+      expect(provider.retrieveResponse).not.toHaveBeenCalled();
+      controller.abort();
+      await expect(poll).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      process.env.OPENAI_RETRY_COUNT = '0';
+      createResponse.mockRejectedValue(Object.assign(new Error('Service Unavailable'), { status: 503 }));
+    });
+
+    afterEach(() => {
+      delete process.env.OPENAI_RETRY_COUNT;
+    });
+
+    it('should skip a model with an open circuit and go straight to the fallback', async () => {
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'transient', new CircuitBreakerRegistry(2, 60000));
+
+      await client.createResponse({ input: 'hi' });
+      await client.createResponse({ input: 'hi' });
+      const response = await client.createResponse({ input: 'hi' });
+
+      expect(createResponse).toHaveBeenCalledTimes(2);
+      expect(response.model).toBe('gpt-4o');
+      expect(response.fallback?.reason).toContain('circuit open for gpt-5');
+      expect(client.getCircuitStatus()).toEqual(expect.arrayContaining([
+        expect.objectContaining({ model: 'gpt-5', endpoint: 'responses', state: 'open', consecutiveFailures: 2 }),
+        expect.objectContaining({ model: 'gpt-4o', endpoint: 'chat', state: 'closed', totalSuccesses: 3 })
+      ]));
+    });
+
+    it('should fail fast when the circuit is open and fallback is not allowed', async () => {
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'never', new CircuitBreakerRegistry(1, 60000));
+
+      await expect(client.createResponse({ input: 'hi' })).rejects.toThrow('Service Unavailable');
+      await expect(client.createResponse({ input: 'hi' })).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(createResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not count caller errors against the model', async () => {
+      createResponse.mockRejectedValue(Object.assign(new Error('Invalid parameter'), { status: 400 }));
+      const client = new GPT5Client(provider, 0.7, 'high', undefined, 'transient', new CircuitBreakerRegistry(1, 60000));
+
+      await expect(client.createResponse({ input: 'hi' })).rejects.toThrow('Invalid parameter');
+      await expect(client.createResponse({ input: 'hi' })).rejects.toThrow('Invalid parameter');
+      expect(createResponse).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { calculateUsageCost, PricingRegistry, toBatchPricing } from '../src/pricing';
+
+const bundledPath = path.join(__dirname, '../config/pricing.json');
+
+const gpt5 = { input: 0.00125, output: 0.01, cached: 0.000125, reasoning: 0.01 };
+
+describe('calculateUsageCost', () => {
+  it('should bill plain input and output at base rates', () => {
+    const result = calculateUsageCost(gpt5, { inputTokens: 10000, outputTokens: 1000 });
+    expect(result).toEqual({ cost: 0.0225, cacheSavings: 0 });
+  });
+
+  it('should bill cached input at the cached rate and report savings', () => {
+    const result = calculateUsageCost(gpt5, { inputTokens: 10000, cachedInputTokens: 8000, outputTokens: 0 });
+    // 2000 uncached * 0.00125 + 8000 cached * 0.000125 per 1K
+    expect(result.cost).toBe(0.0035);
+    expect(result.cacheSavings).toBe(0.009);
+  });
+
+  it('should not double count reasoning tokens already included in output', () => {
+    const result = calculateUsageCost(gpt5, { inputTokens: 0, outputTokens: 2000, reasoningTokens: 1500 });
+    expect(result.cost).toBe(0.02);
+  });
+
+  it('should bill reasoning at its own rate when it differs', () => {
+    const result = calculateUsageCost({ ...gpt5, reasoning: 0.02 }, { inputTokens: 0, outputTokens: 2000, reasoningTokens: 1000 });
+    expect(result.cost).toBe(0.03);
+  });
+
+  it('should fall back to the input rate when no cached rate is known', () => {
+    const result = calculateUsageCost({ input: 0.0025, output: 0.01 }, { inputTokens: 1000, cachedInputTokens: 1000, outputTokens: 0 });
+    expect(result).toEqual({ cost: 0.0025, cacheSavings: 0 });
+  });
+});
+
+describe('toBatchPricing', () => {
+  it('should use the batch rates, billing reasoning as batch output', () => {
+    const pricing = toBatchPricing({ ...gpt5, batch: { input: 0.000625, cached: 0.0000625, output: 0.005 } });
+    expect(pricing).toMatchObject({ input: 0.000625, cached: 0.0000625, output: 0.005, reasoning: 0.005 });
+  });
+
+  it('should keep the regular rates for models without batch rates', () => {
+    expect(toBatchPricing(gpt5)).toEqual(gpt5);
+  });
+});
+
+describe('PricingRegistry', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-pricing-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should load the bundled registry', () => {
+    const registry = PricingRegistry.load(bundledPath);
+    expect(registry.effectiveDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(registry.getPricing('gpt-5')).toEqual({
+      input: 0.00125, cached: 0.000125, output: 0.01, reasoning: 0.01,
+      batch: { input: 0.000625, cached: 0.0000625, output: 0.005 }
+    });
+    expect(registry.getFallbackModels()[0]).toBe('gpt-4o');
+  });
+
+  it('should match dated snapshots by longest prefix', () => {
+    const registry = PricingRegistry.load(bundledPath);
+    expect(registry.getPricing('gpt-4o-mini-2024-07-18')).toBe(registry.getPricing('gpt-4o-mini'));
+    expect(registry.getPricing('gpt-5-2025-08-07')).toBe(registry.getPricing('gpt-5'));
+  });
+
+  it('should fall back to the default model for the API kind', () => {
+    const registry = PricingRegistry.load(bundledPath);
+    expect(registry.getPricing('mystery-model')).toBe(registry.getPricing('gpt-5'));
+    expect(registry.getPricing('mystery-model', 'chat')).toBe(registry.getPricing('gpt-4'));
+  });
+
+  it('should ignore a missing override file', () => {
+    const registry = PricingRegistry.load(bundledPath, path.join(tmpDir, 'missing.json'));
+    expect(registry.getPricing('gpt-5').input).toBe(0.00125);
+  });
+
+  it('should merge an override file model by model', () => {
+    const overridePath = path.join(tmpDir, 'pricing.json');
+    fs.writeFileSync(overridePath, JSON.stringify({
+      effectiveDate: '2026-01-01',
+      models: {
+        'gpt-5': { input: 0.001 },
+        'my-finetune': { input: 0.003, output: 0.012 }
+      }
+    }));
+
+    const registry = PricingRegistry.load(bundledPath, overridePath);
+
+    expect(registry.effectiveDate).toBe('2026-01-01');
+    expect(registry.getPricing('gpt-5')).toEqual({
+      input: 0.001, cached: 0.000125, output: 0.01, reasoning: 0.01,
+      batch: { input: 0.000625, cached: 0.0000625, output: 0.005 }
+    });
+    expect(registry.getPricing('my-finetune')).toEqual({ input: 0.003, output: 0.012 });
+  });
+
+  it('should overlay a provider section on the list prices', () => {
+    const overridePath = path.join(tmpDir, 'azure.json');
+    fs.writeFileSync(overridePath, JSON.stringify({ providers: { azure: { models: { 'gpt-5': { input: 0.0014 } } } } }));
+
+    const registry = PricingRegistry.load(bundledPath, overridePath);
+    const azure = registry.forProvider('azure');
+
+    expect(azure.getPricing('gpt-5')).toMatchObject({ input: 0.0014, output: 0.01 });
+    expect(azure.getPricing('gpt-4')).toEqual(registry.getPricing('gpt-4'));
+    expect(registry.getPricing('gpt-5').input).toBe(0.00125);
+    expect(registry.forProvider('openai')).toBe(registry);
+  });
+
+  it('should reject malformed entries', () => {
+    const overridePath = path.join(tmpDir, 'bad.json');
+    fs.writeFileSync(overridePath, JSON.stringify({ models: { 'new-model': { input: 0.001 } } }));
+    expect(() => PricingRegistry.load(bundledPath, overridePath)).toThrow('new-model needs numeric input and output rates');
+
+    fs.writeFileSync(overridePath, JSON.stringify({ providers: { azure: { models: { 'gpt-9': { output: 0.01 } } } } }));
+    expect(() => PricingRegistry.load(bundledPath, overridePath)).toThrow('azure gpt-9 needs numeric input and output rates');
+
+    fs.writeFileSync(overridePath, JSON.stringify({ version: 2, models: {} }));
+    expect(() => PricingRegistry.load(bundledPath, overridePath)).toThrow('version 2 is newer than this server supports');
+
+    fs.writeFileSync(overridePath, JSON.stringify({ effectiveDate: 'next week', models: {} }));
+    expect(() => PricingRegistry.load(bundledPath, overridePath)).toThrow('"effectiveDate" must be a YYYY-MM-DD date');
+
+    fs.writeFileSync(overridePath, '{ not json');
+    expect(() => PricingRegistry.load(bundledPath, overridePath)).toThrow('Failed to read pricing override');
+  });
+});
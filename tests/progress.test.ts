@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ProgressReporter } from '../src/progress';
+
+describe('ProgressReporter', () => {
+  let sent: Array<{ progress: number; message?: string }>;
+  let reporter: ProgressReporter;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sent = [];
+    reporter = new ProgressReporter(async (params) => { sent.push(params); }, 100);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should batch text deltas until the interval elapses', async () => {
+    reporter.report({ type: 'text_delta', text: 'Hello' });
+    reporter.report({ type: 'text_delta', text: ', world' });
+    expect(sent).toHaveLength(0);
+
+    jest.advanceTimersByTime(100);
+    await reporter.flush();
+
+    expect(sent).toEqual([{ progress: 1, message: 'Hello, world' }]);
+  });
+
+  it('should emit status updates immediately after pending text', async () => {
+    reporter.report({ type: 'text_delta', text: 'partial' });
+    reporter.report({ type: 'status', text: 'Writing response...' });
+    await reporter.flush();
+
+    expect(sent).toEqual([
+      { progress: 1, message: 'partial' },
+      { progress: 2, message: '[status] Writing response...' }
+    ]);
+  });
+
+  it('should keep reasoning and text deltas in separate notifications', async () => {
+    reporter.report({ type: 'reasoning', text: 'Considering options' });
+    reporter.report({ type: 'text_delta', text: 'Answer' });
+    await reporter.flush();
+
+    expect(sent.map(p => p.message)).toEqual(['[reasoning] Considering options', 'Answer']);
+    expect(sent.map(p => p.progress)).toEqual([1, 2]);
+  });
+
+  it('should swallow send failures', async () => {
+    const failing = new ProgressReporter(async () => { throw new Error('client gone'); }, 100);
+    failing.report({ type: 'status', text: 'Reasoning...' });
+
+    await expect(failing.flush()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import path from 'path';
+import {
+  createProvider,
+  OpenAIProvider,
+  AzureOpenAIProvider,
+  OpenAICompatibleProvider
+} from '../src/providers';
+import { PricingRegistry } from '../src/pricing';
+
+const pricing = PricingRegistry.load(path.join(__dirname, '../config/pricing.json'));
+
+describe('createProvider', () => {
+  it('should default to OpenAI and require an API key', () => {
+    expect(() => createProvider({}, pricing)).toThrow('OPENAI_API_KEY');
+
+    const provider = createProvider({ OPENAI_API_KEY: 'sk-test' }, pricing);
+    expect(provider).toBeInstanceOf(OpenAIProvider);
+    expect(provider.name).toBe('openai');
+    expect(provider.supportsResponsesApi).toBe(true);
+    expect(provider.getPricing('gpt-5').cached).toBe(0.000125);
+    expect(provider.getDefaultChatModels()).toEqual(pricing.getFallbackModels());
+  });
+
+  it('should build an Azure provider with deployment mappings', () => {
+    const provider = createProvider({
+      LLM_PROVIDER: 'azure',
+      AZURE_OPENAI_ENDPOINT: 'https://example.openai.azure.com',
+      AZURE_OPENAI_API_KEY: 'azure-key',
+      AZURE_OPENAI_DEPLOYMENTS: 'gpt-5=prod-gpt5, gpt-4o=prod-4o'
+    }, pricing);
+
+    expect(provider).toBeInstanceOf(AzureOpenAIProvider);
+    expect(provider.name).toBe('azure');
+    expect(provider.getDefaultChatModels()).toEqual(['gpt-5', 'gpt-4o']);
+  });
+
+  it('should price Azure from its own registry section', () => {
+    const provider = createProvider({
+      LLM_PROVIDER: 'azure',
+      AZURE_OPENAI_ENDPOINT: 'https://example.openai.azure.com',
+      AZURE_OPENAI_API_KEY: 'azure-key'
+    }, pricing);
+
+    expect(provider.getPricing('gpt-5').cached).toBe(0.00013);
+    expect(provider.getPricing('gpt-5-2025-08-07').cached).toBe(0.00013);
+    // Models without an Azure entry keep the list price
+    expect(provider.getPricing('gpt-4')).toBe(pricing.getPricing('gpt-4'));
+  });
+
+  it('should reject an Azure provider without an endpoint', () => {
+    expect(() => createProvider({ LLM_PROVIDER: 'azure', AZURE_OPENAI_API_KEY: 'k' }, pricing)).toThrow('AZURE_OPENAI_ENDPOINT');
+  });
+
+  it('should build an OpenAI-compatible provider for local servers', () => {
+    const provider = createProvider({
+      LLM_PROVIDER: 'openai-compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+      OPENAI_COMPATIBLE_MODELS: 'llama3.1,qwen2.5',
+      OPENAI_COMPATIBLE_INPUT_PRICE: '0.0001'
+    }, pricing);
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.supportsResponsesApi).toBe(false);
+    expect(provider.getDefaultChatModels()).toEqual(['llama3.1', 'qwen2.5']);
+    expect(provider.getPricing('anything')).toEqual({ input: 0.0001, output: 0 });
+  });
+
+  it('should require models for an OpenAI-compatible provider', () => {
+    expect(() => createProvider({
+      LLM_PROVIDER: 'openai-compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8000/v1'
+    }, pricing)).toThrow('OPENAI_COMPATIBLE_MODELS');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createProvider({ LLM_PROVIDER: 'bedrock' }, pricing)).toThrow('Unknown LLM_PROVIDER');
+  });
+
+  it('should replay a cassette without an API key but record only with one', () => {
+    expect(createProvider({ OPENAI_CASSETTE: '/tmp/none.json' }, pricing)).toBeInstanceOf(OpenAIProvider);
+    expect(() => createProvider({ OPENAI_CASSETTE: '/tmp/none.json', OPENAI_CASSETTE_MODE: 'record' }, pricing)).toThrow('OPENAI_API_KEY');
+    expect(() => createProvider({ OPENAI_CASSETTE: '/tmp/none.json', OPENAI_CASSETTE_MODE: 'rewind', OPENAI_API_KEY: 'k' }, pricing))
+      .toThrow('Unknown OPENAI_CASSETTE_MODE');
+  });
+});
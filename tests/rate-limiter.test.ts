@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RateLimiter, parseDuration } from '../src/rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Resolves the order in which queued acquisitions were admitted
+  const track = (limiter: RateLimiter, tokens: number, admitted: string[], name: string, signal?: AbortSignal) =>
+    limiter.acquire(tokens, signal).then(() => { admitted.push(name); });
+
+  it('should admit up to the request limit and queue the rest', async () => {
+    const limiter = new RateLimiter(2, 0);
+    const admitted: string[] = [];
+
+    track(limiter, 0, admitted, 'a');
+    track(limiter, 0, admitted, 'b');
+    track(limiter, 0, admitted, 'c');
+    await Promise.resolve();
+
+    expect(admitted).toEqual(['a', 'b']);
+    expect(limiter.getStatus().queueDepth).toBe(1);
+
+    // One request's worth of capacity refills in 30s at 2 RPM
+    await jest.advanceTimersByTimeAsync(30_000);
+    expect(admitted).toEqual(['a', 'b', 'c']);
+    expect(limiter.getStatus()).toMatchObject({ queueDepth: 0, waitedRequests: 1, maxWaitMs: 30_000 });
+  });
+
+  it('should keep a large request ahead of smaller ones behind it', async () => {
+    const limiter = new RateLimiter(0, 1000);
+    const admitted: string[] = [];
+
+    track(limiter, 800, admitted, 'first');
+    track(limiter, 600, admitted, 'large');
+    track(limiter, 10, admitted, 'small');
+    await Promise.resolve();
+    expect(admitted).toEqual(['first']);
+
+    // 'small' fits now, but it waits its turn behind 'large'
+    await jest.advanceTimersByTimeAsync(20_000);
+    expect(admitted).toEqual(['first']);
+
+    await jest.advanceTimersByTimeAsync(6_000);
+    expect(admitted).toEqual(['first', 'large', 'small']);
+  });
+
+  it('should pause the queue for Retry-After', async () => {
+    const limiter = new RateLimiter();
+    const admitted: string[] = [];
+
+    limiter.observe({ 'retry-after': '2' });
+    track(limiter, 100, admitted, 'a');
+    await Promise.resolve();
+    expect(admitted).toEqual([]);
+    expect(limiter.getStatus().pauseReason).toBe('Retry-After from the API');
+
+    await jest.advanceTimersByTimeAsync(2_000);
+    expect(admitted).toEqual(['a']);
+  });
+
+  it('should still hold the queue briefly for a Retry-After of 0', async () => {
+    const limiter = new RateLimiter();
+    const admitted: string[] = [];
+
+    limiter.observe({ 'retry-after': '0' });
+    track(limiter, 100, admitted, 'a');
+    await Promise.resolve();
+    expect(admitted).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(250);
+    expect(admitted).toEqual(['a']);
+  });
+
+  it('should wait for the reset when the server says the window is used up', async () => {
+    const limiter = new RateLimiter();
+    const admitted: string[] = [];
+
+    limiter.observe({
+      'x-ratelimit-remaining-requests': '5',
+      'x-ratelimit-reset-requests': '1s',
+      'x-ratelimit-remaining-tokens': '500',
+      'x-ratelimit-reset-tokens': '1m30s'
+    });
+    track(limiter, 400, admitted, 'fits');
+    track(limiter, 400, admitted, 'too big');
+    await Promise.resolve();
+    expect(admitted).toEqual(['fits']);
+
+    await jest.advanceTimersByTimeAsync(90_000);
+    expect(admitted).toEqual(['fits', 'too big']);
+  });
+
+  it('should drop a queued request when its caller cancels', async () => {
+    const limiter = new RateLimiter(1, 0);
+    const controller = new AbortController();
+
+    await limiter.acquire(0);
+    const queued = limiter.acquire(0, controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toBeDefined();
+    expect(limiter.getStatus().queueDepth).toBe(0);
+  });
+});
+
+describe('parseDuration', () => {
+  it('should parse the reset formats the API sends', () => {
+    expect(parseDuration('20ms')).toBe(20);
+    expect(parseDuration('1s')).toBe(1000);
+    expect(parseDuration('6m0s')).toBe(360_000);
+    expect(parseDuration('1h2m3.5s')).toBe(3_723_500);
+    expect(parseDuration('soon')).toBeUndefined();
+  });
+});
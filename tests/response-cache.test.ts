@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ResponseCache } from '../src/response-cache';
+import { GPT5Response } from '../src/types';
+
+const response = (text: string): GPT5Response => ({
+  text,
+  usage: { inputTokens: 100, outputTokens: 50, totalTokens: 150, estimatedCost: 0.02 },
+  raw: {},
+  model: 'gpt-5'
+});
+
+describe('ResponseCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gpt5-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('keyFor', () => {
+    const base = { model: 'gpt-5', input: 'Review this', reasoningEffort: 'high', temperature: 0.7 };
+
+    it('should be stable regardless of key order', () => {
+      const schema = { type: 'object', properties: { a: { type: 'string' } } };
+      const reordered = { properties: { a: { type: 'string' } }, type: 'object' };
+      expect(ResponseCache.keyFor({ ...base, responseSchema: schema })).toBe(ResponseCache.keyFor({ ...base, responseSchema: reordered }));
+    });
+
+    it('should change with anything that changes the answer', () => {
+      const key = ResponseCache.keyFor(base);
+      expect(ResponseCache.keyFor({ ...base, model: 'gpt-5-mini' })).not.toBe(key);
+      expect(ResponseCache.keyFor({ ...base, reasoningEffort: 'low' })).not.toBe(key);
+      expect(ResponseCache.keyFor({ ...base, temperature: 0.2 })).not.toBe(key);
+      expect(ResponseCache.keyFor({ ...base, maxTokens: 500 })).not.toBe(key);
+      expect(ResponseCache.keyFor({ ...base, instructions: 'Be brief' })).not.toBe(key);
+      expect(ResponseCache.keyFor({
+        ...base,
+        attachments: [{ kind: 'image', mimeType: 'image/png', data: 'AAAA', name: 'a.png', estimatedTokens: 255 }]
+      })).not.toBe(key);
+    });
+  });
+
+  it('should return what was stored', async () => {
+    const cache = new ResponseCache(dir);
+
+    await cache.set('abc', response('cached answer'));
+
+    expect(await cache.get('abc')).toMatchObject({ key: 'abc', text: 'cached answer', model: 'gpt-5', usage: { estimatedCost: 0.02 } });
+    expect(await cache.get('missing')).toBeUndefined();
+  });
+
+  it('should not store incomplete answers', async () => {
+    const cache = new ResponseCache(dir);
+
+    await cache.set('abc', { ...response('cut off mid-'), incomplete: true });
+
+    expect(await cache.get('abc')).toBeUndefined();
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const cache = new ResponseCache(dir, 1000);
+    await cache.set('abc', response('old answer'));
+    const file = path.join(dir, 'abc.json');
+    const entry = JSON.parse(await fs.readFile(file, 'utf-8'));
+    await fs.writeFile(file, JSON.stringify({ ...entry, createdAt: new Date(Date.now() - 5000).toISOString() }));
+
+    expect(await cache.get('abc')).toBeUndefined();
+    await expect(fs.access(file)).rejects.toThrow();
+  });
+
+  it('should evict the least recently used entries past the size cap', async () => {
+    // Each entry is a little over 300 bytes, so two fit and a third does not
+    const cache = new ResponseCache(dir, 60000, 700);
+    await cache.set('first', response('a'.repeat(150)));
+    await cache.set('second', response('b'.repeat(150)));
+    // Make "first" the older of the two, then use it so "second" becomes least recently used
+    const past = new Date(Date.now() - 10000);
+    await fs.utimes(path.join(dir, 'first.json'), past, past);
+    await fs.utimes(path.join(dir, 'second.json'), new Date(Date.now() - 5000), new Date(Date.now() - 5000));
+    await cache.get('first');
+
+    await cache.set('third', response('c'.repeat(150)));
+
+    expect(await cache.get('first')).toBeDefined();
+    expect(await cache.get('second')).toBeUndefined();
+    expect(await cache.get('third')).toBeDefined();
+  });
+});
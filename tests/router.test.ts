@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { chooseRoute, routerModelsFromEnv, RouteInput } from '../src/router';
+
+const models = { light: 'gpt-5-mini', standard: 'gpt-5' };
+
+const input = (overrides: Partial<RouteInput>): RouteInput => ({
+  prompt: 'Look at this function and tell me what you think of it.',
+  promptTokens: 1500,
+  resourceKinds: [],
+  remainingBudget: 10,
+  dailyLimit: 10,
+  ...overrides
+});
+
+describe('chooseRoute', () => {
+  it('should follow a declared task type over everything else', () => {
+    expect(chooseRoute(input({ taskType: 'quick_check', prompt: 'Is this design secure?' }), models))
+      .toMatchObject({ model: 'gpt-5-mini', effort: 'minimal', reason: 'task type quick_check' });
+    expect(chooseRoute(input({ taskType: 'architecture', promptTokens: 20 }), models))
+      .toMatchObject({ model: 'gpt-5', effort: 'high' });
+  });
+
+  it('should give hard topics high effort on the standard model', () => {
+    const route = chooseRoute(input({ prompt: 'Can this queue have a race condition under load?' }), models);
+
+    expect(route).toMatchObject({ model: 'gpt-5', tier: 'standard', effort: 'high' });
+    expect(route.reason).toBe('prompt mentions "race condition"');
+  });
+
+  it('should use medium effort for large requests and attachments', () => {
+    expect(chooseRoute(input({ promptTokens: 12000 }), models)).toMatchObject({ model: 'gpt-5', effort: 'medium', reason: 'large request (12000 tokens)' });
+    expect(chooseRoute(input({ promptTokens: 50, resourceKinds: ['image/png', 'application/pdf', 'image/png'] }), models))
+      .toMatchObject({ model: 'gpt-5', effort: 'medium', reason: 'attachments (image/png, application/pdf)' });
+  });
+
+  it('should send short and simple prompts to the light model', () => {
+    expect(chooseRoute(input({ prompt: 'Is there a typo in this comment?' }), models))
+      .toMatchObject({ model: 'gpt-5-mini', effort: 'low', reason: 'simple request ("typo")' });
+    expect(chooseRoute(input({ prompt: 'Thoughts?', promptTokens: 40 }), models))
+      .toMatchObject({ model: 'gpt-5-mini', effort: 'low', reason: 'short prompt (40 tokens)' });
+  });
+
+  it('should default to the standard model at medium effort', () => {
+    expect(chooseRoute(input({}), models)).toMatchObject({ model: 'gpt-5', effort: 'medium', reason: 'no specific signals' });
+  });
+
+  it('should lower the effort when the daily budget runs low', () => {
+    const route = chooseRoute(input({ taskType: 'debugging', remainingBudget: 2 }), models);
+
+    expect(route).toMatchObject({ model: 'gpt-5', effort: 'medium' });
+    expect(route.reason).toBe('task type debugging; 20% of the daily budget left: effort lowered to medium');
+  });
+
+  it('should switch to the light model when the budget is nearly spent', () => {
+    const route = chooseRoute(input({ taskType: 'architecture', remainingBudget: 0.5 }), models);
+
+    expect(route).toMatchObject({ model: 'gpt-5-mini', tier: 'light', effort: 'low' });
+    expect(route.reason).toContain('5% of the daily budget left');
+  });
+});
+
+describe('routerModelsFromEnv', () => {
+  it('should default to gpt-5-mini and the primary model', () => {
+    expect(routerModelsFromEnv('gpt-5', {})).toEqual({ light: 'gpt-5-mini', standard: 'gpt-5' });
+    expect(routerModelsFromEnv('gpt-5', { ROUTER_LIGHT_MODEL: 'gpt-5-nano', ROUTER_STANDARD_MODEL: 'o3' }))
+      .toEqual({ light: 'gpt-5-nano', standard: 'o3' });
+  });
+});
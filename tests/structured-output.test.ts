@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { createResponseFormat, validateStructuredOutput, buildRepairPrompt } from '../src/structured-output';
+
+const schema = {
+  type: 'object',
+  properties: {
+    severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+    files: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['severity', 'files']
+};
+
+describe('createResponseFormat', () => {
+  it('should wrap a valid schema', () => {
+    expect(createResponseFormat(schema)).toEqual({ name: 'response', schema, strict: false });
+  });
+
+  it('should reject an invalid schema', () => {
+    expect(() => createResponseFormat({ type: 'not-a-type' })).toThrow('Invalid response_schema');
+  });
+
+  it('should reject a schema that does not compile', () => {
+    expect(() => createResponseFormat({ $ref: '#/definitions/missing' })).toThrow('Invalid response_schema');
+  });
+});
+
+describe('validateStructuredOutput', () => {
+  it('should accept conforming JSON', () => {
+    const result = validateStructuredOutput('{"severity":"high","files":["a.ts"]}', schema);
+    expect(result).toEqual({ valid: true, value: { severity: 'high', files: ['a.ts'] } });
+  });
+
+  it('should tolerate markdown code fences', () => {
+    const result = validateStructuredOutput('```json\n{"severity":"low","files":[]}\n```', schema);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report parse errors', () => {
+    const result = validateStructuredOutput('Here is your answer: severity high', schema);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors[0]).toContain('not valid JSON');
+    }
+  });
+
+  it('should validate against a schema with the same $id more than once', () => {
+    const withId = { ...schema, $id: 'https://example.com/review.json' };
+
+    expect(createResponseFormat(withId).schema).toBe(withId);
+    expect(validateStructuredOutput('{"severity":"high","files":[]}', withId).valid).toBe(true);
+    expect(validateStructuredOutput('{"severity":"high","files":[]}', withId).valid).toBe(true);
+    expect(validateStructuredOutput('{"severity":"low"}', { ...withId, required: ['severity'] }).valid).toBe(true);
+  });
+
+  it('should validate 2020-12 schemas', () => {
+    const tuple = {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      items: false
+    };
+
+    expect(createResponseFormat(tuple).schema).toBe(tuple);
+    expect(validateStructuredOutput('["a", 1]', tuple).valid).toBe(true);
+    expect(validateStructuredOutput('["a", 1, 2]', tuple).valid).toBe(false);
+  });
+
+  it('should report schema violations', () => {
+    const result = validateStructuredOutput('{"severity":"critical"}', schema);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors.join('\n')).toContain('files');
+      expect(result.errors.join('\n')).toContain('/severity');
+    }
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('should include the previous output and errors', () => {
+    const prompt = buildRepairPrompt('Classify this issue', '{"severity":"critical"}', ['/severity must be equal to one of the allowed values']);
+    expect(prompt).toContain('Classify this issue');
+    expect(prompt).toContain('{"severity":"critical"}');
+    expect(prompt).toContain('- /severity must be equal to one of the allowed values');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { countTokens, encodingForModel, truncateToTokens, TRUNCATION_MARKER } from '../src/tokenizer';
+
+describe('countTokens', () => {
+  it('should return 0 for empty text', () => {
+    expect(countTokens('')).toBe(0);
+  });
+
+  it('should count BPE tokens rather than characters', () => {
+    expect(countTokens('Hello, world!')).toBe(4);
+  });
+
+  it('should grow with the amount of text', () => {
+    const short = countTokens('function add(a, b) { return a + b; }');
+    const long = countTokens('function add(a, b) { return a + b; }\n'.repeat(10));
+    expect(long).toBeGreaterThan(short * 5);
+  });
+
+  it('should use the encoding of the model', () => {
+    const text = 'Die Straßenbahnhaltestelle liegt gegenüber dem Rathaus.';
+    expect(countTokens(text, 'gpt-4')).not.toBe(countTokens(text, 'gpt-5'));
+  });
+
+  it('should count special tokens in the text as plain text', () => {
+    expect(countTokens('a<|endoftext|>b')).toBeGreaterThan(3);
+    expect(countTokens('<|im_start|>', 'gpt-4')).toBeGreaterThan(1);
+  });
+});
+
+describe('encodingForModel', () => {
+  it('should pick cl100k for GPT-4 and GPT-3.5 and o200k for newer models', () => {
+    expect(encodingForModel('gpt-4')).toBe('cl100k_base');
+    expect(encodingForModel('gpt-4-turbo')).toBe('cl100k_base');
+    expect(encodingForModel('gpt-3.5-turbo')).toBe('cl100k_base');
+    expect(encodingForModel('gpt-4o')).toBe('o200k_base');
+    expect(encodingForModel('gpt-4.1-mini')).toBe('o200k_base');
+    expect(encodingForModel('gpt-5')).toBe('o200k_base');
+    expect(encodingForModel('o3')).toBe('o200k_base');
+    expect(encodingForModel(undefined)).toBe('o200k_base');
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('should leave text within the limit alone', () => {
+    expect(truncateToTokens('Hello, world!', 4)).toBe('Hello, world!');
+  });
+
+  it('should cut at a token boundary and mark the cut', () => {
+    const text = 'function add(a, b) { return a + b; }\n'.repeat(50);
+
+    const truncated = truncateToTokens(text, 100);
+
+    expect(truncated.endsWith(TRUNCATION_MARKER)).toBe(true);
+    const kept = truncated.slice(0, -TRUNCATION_MARKER.length);
+    expect(countTokens(kept)).toBe(100);
+    expect(text.startsWith(kept)).toBe(true);
+  });
+
+  it('should not leave half a character at the cut', () => {
+    const truncated = truncateToTokens('日本語のテキスト'.repeat(40), 7);
+
+    expect(truncated).not.toContain('�');
+    expect(countTokens(truncated.slice(0, -TRUNCATION_MARKER.length))).toBeLessThanOrEqual(7);
+  });
+
+  it('should handle special tokens in the text', () => {
+    const text = 'before <|endoftext|> after\n'.repeat(20);
+
+    expect(truncateToTokens(text, 10_000)).toBe(text);
+    const truncated = truncateToTokens(text, 10);
+    expect(text.startsWith(truncated.slice(0, -TRUNCATION_MARKER.length))).toBe(true);
+  });
+});
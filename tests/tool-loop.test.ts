@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { runToolLoop } from '../src/tool-loop';
+import { GPT5Response, TokenUsage } from '../src/types';
+
+const usage = (cost: number): TokenUsage => ({
+  inputTokens: 100,
+  outputTokens: 50,
+  totalTokens: 150,
+  estimatedCost: cost
+});
+
+describe('runToolLoop', () => {
+  let createResponse: jest.Mock<(params: any) => Promise<GPT5Response>>;
+  let checkAndRecordUsage: jest.Mock<(...args: any[]) => Promise<any>>;
+  let recordUsage: jest.Mock<(...args: any[]) => Promise<any>>;
+  let execute: jest.Mock<(name: string, args: string) => Promise<string>>;
+  let client: any;
+  let costManager: any;
+  let registry: any;
+
+  const options = {
+    taskId: 'task-1',
+    input: 'What does main() return?',
+    requestOptions: {},
+    maxIterations: 3,
+    maxCost: 1,
+    confirmSpending: false
+  };
+
+  beforeEach(() => {
+    createResponse = jest.fn();
+    checkAndRecordUsage = jest.fn(async () => ({ allowed: true }));
+    recordUsage = jest.fn(async () => ({}));
+    execute = jest.fn(async () => 'export function main() { return 42; }');
+    client = { createResponse };
+    costManager = { checkAndRecordUsage, recordUsage };
+    registry = { getDefinitions: () => [{ type: 'function', name: 'read_file' }], execute };
+  });
+
+  it('should feed tool results back until a final message', async () => {
+    const functionCall = { type: 'function_call', call_id: 'call_1', name: 'read_file', arguments: '{"path":"src/app.ts"}' };
+    createResponse
+      .mockResolvedValueOnce({
+        text: '',
+        usage: usage(0.01),
+        raw: { output: [functionCall] },
+        toolCalls: [{ callId: 'call_1', name: 'read_file', arguments: '{"path":"src/app.ts"}' }]
+      })
+      .mockResolvedValueOnce({ text: 'It returns 42.', usage: usage(0.02), raw: { output: [] }, toolCalls: [] });
+
+    const result = await runToolLoop(client, costManager, registry, options);
+
+    expect(result.response.text).toBe('It returns 42.');
+    expect(result.iterations).toBe(2);
+    expect(result.toolCalls).toBe(1);
+    expect(result.usage.estimatedCost).toBe(0.03);
+    expect(result.stopReason).toBeUndefined();
+    expect(execute).toHaveBeenCalledWith('read_file', '{"path":"src/app.ts"}');
+
+    const secondInput = createResponse.mock.calls[1][0].input;
+    expect(secondInput).toEqual([
+      { role: 'user', content: 'What does main() return?' },
+      functionCall,
+      { type: 'function_call_output', call_id: 'call_1', output: 'export function main() { return 42; }' }
+    ]);
+
+    // Both iterations are charged to the task
+    expect(recordUsage.mock.calls.map(call => call[1])).toEqual([usage(0.01), usage(0.02)]);
+  });
+
+  it('should stop at the iteration cap', async () => {
+    createResponse.mockResolvedValue({
+      text: '',
+      usage: usage(0.01),
+      raw: { output: [] },
+      toolCalls: [{ callId: 'call_x', name: 'read_file', arguments: '{}' }]
+    });
+
+    const result = await runToolLoop(client, costManager, registry, options);
+
+    expect(result.iterations).toBe(3);
+    expect(result.stopReason).toContain('iteration cap');
+    expect(createResponse).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at the cost cap', async () => {
+    createResponse.mockResolvedValue({
+      text: '',
+      usage: usage(0.6),
+      raw: { output: [] },
+      toolCalls: [{ callId: 'call_x', name: 'read_file', arguments: '{}' }]
+    });
+
+    const result = await runToolLoop(client, costManager, registry, { ...options, maxIterations: 10 });
+
+    expect(result.iterations).toBe(2);
+    expect(result.stopReason).toContain('cost cap');
+  });
+
+  it('should stop when the budget check refuses the next iteration', async () => {
+    createResponse.mockResolvedValue({
+      text: '',
+      usage: usage(0.01),
+      raw: { output: [] },
+      toolCalls: [{ callId: 'call_x', name: 'read_file', arguments: '{}' }]
+    });
+    checkAndRecordUsage.mockResolvedValue({ allowed: false, reason: 'Approaching daily limit' });
+
+    const result = await runToolLoop(client, costManager, registry, options);
+
+    expect(result.iterations).toBe(1);
+    expect(result.stopReason).toBe('Approaching daily limit');
+  });
+});